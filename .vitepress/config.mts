@@ -1,20 +1,63 @@
+/// <reference types="node" />
+import { readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vitepress'
+import { writeServiceWorker } from './offline'
+import playgroundScenarios from './theme/playground-scenarios.data.mjs'
+import { apiClasses, apiClassLink, toolLink, tools } from './theme/registry'
+import { scenarioSearchHtml } from './theme/scenario-search'
+
+/**
+ * Fail the build when the registry and the pages in `dir` disagree: every
+ * entry needs a page, and every page other than the overview an entry.
+ */
+function checkRegistryPages(dir: string, slugs: string[]) {
+  const pages = readdirSync(new URL(`../${dir}/`, import.meta.url))
+    .filter(file => file.endsWith('.md') && file !== 'overview.md')
+    .map(file => file.slice(0, -'.md'.length))
+
+  const problems = [
+    ...slugs.filter(slug => !pages.includes(slug)).map(slug => `${dir}/${slug}.md is missing`),
+    ...pages.filter(page => !slugs.includes(page)).map(page => `${dir}/${page}.md has no registry entry`)
+  ]
+  if (problems.length) {
+    throw new Error(`The registry in .vitepress/theme/registry.ts does not match ${dir}/:\n  - ${problems.join('\n  - ')}`)
+  }
+}
+
+checkRegistryPages('tools', tools.map(tool => tool.slug))
+checkRegistryPages('api', apiClasses.map(apiClass => apiClass.slug))
+
+/** The playground scenarios, loaded the same way the playground page loads them. */
+function loadPlaygroundScenarios() {
+  const dir = new URL('../playground/', import.meta.url)
+  const files = readdirSync(dir)
+    .filter(file => file.endsWith('.yaml'))
+    .map(file => fileURLToPath(new URL(file, dir)))
+  return playgroundScenarios.load(files)
+}
 
 // https://vitepress.dev/reference/site-config
 export default defineConfig({
   title: "WakeIQX",
   description: "Temporal Intelligence for AI Agents - 3-Layer Brain Architecture (Past/Present/Future)",
 
+  // No third-party requests, so every page works offline: text is set in the
+  // theme's Inter, which VitePress bundles, and the system monospace font
   head: [
     ['link', { rel: 'icon', type: 'image/png', href: '/logo.png' }],
-    // Premium typography: Outfit + JetBrains Mono
-    ['link', { rel: 'preconnect', href: 'https://fonts.googleapis.com' }],
-    ['link', { rel: 'preconnect', href: 'https://fonts.gstatic.com', crossorigin: '' }],
-    ['link', { href: 'https://fonts.googleapis.com/css2?family=Outfit:wght@400;500;600;700;800&family=JetBrains+Mono:wght@400;500;600;700&display=swap', rel: 'stylesheet' }]
+    // Installable as an app; the service worker is registered by OfflineStatus
+    ['link', { rel: 'manifest', href: '/manifest.webmanifest' }],
+    ['link', { rel: 'apple-touch-icon', href: '/icon-192.png' }],
+    ['meta', { name: 'theme-color', content: '#10b981' }]
   ],
 
-  // Ignore dead links during build (pages to be created later)
-  ignoreDeadLinks: true,
+  // Scenario files and their authoring notes are data, not pages
+  srcExclude: ['playground/**'],
+
+  buildEnd(siteConfig) {
+    writeServiceWorker(siteConfig.outDir)
+  },
 
   // Markdown configuration with Shiki syntax highlighting
   markdown: {
@@ -34,7 +77,18 @@ export default defineConfig({
     search: {
       provider: 'local',
       options: {
-        placeholder: 'Search docs...'
+        // Index the playground scenarios with the page that shows them
+        _render(src, env, md) {
+          const html = md.render(src, env)
+          if (env.frontmatter?.search === false) return ''
+          if (env.relativePath !== 'playground.md') return html
+          return html + scenarioSearchHtml(loadPlaygroundScenarios(), markdown => md.render(markdown))
+        },
+        translations: {
+          button: {
+            buttonText: 'Search docs...'
+          }
+        }
       }
     },
 
@@ -57,7 +111,7 @@ export default defineConfig({
         items: [
           { text: 'What is WakeIQX?', link: '/index' },
           { text: 'Getting Started', link: '/getting-started' },
-      { text: '🎮 Playground', link: '/playground' },
+          { text: '🎮 Playground', link: '/playground' },
           { text: 'Meet the Mascot', link: '/about-mascot' }
         ]
       },
@@ -74,24 +128,14 @@ export default defineConfig({
         text: 'MCP Tools',
         items: [
           { text: 'Tools Overview', link: '/tools/overview' },
-          { text: 'save_context', link: '/tools/save-context' },
-          { text: 'load_context', link: '/tools/load-context' },
-          { text: 'search_context', link: '/tools/search-context' },
-          { text: 'reconstruct_reasoning', link: '/tools/reconstruct-reasoning' },
-          { text: 'build_causal_chain', link: '/tools/build-causal-chain' },
-          { text: 'get_memory_stats', link: '/tools/get-memory-stats' },
-          { text: 'update_predictions', link: '/tools/update-predictions' },
-          { text: 'get_high_value_contexts', link: '/tools/get-high-value-contexts' }
+          ...tools.map(tool => ({ text: tool.name, link: toolLink(tool) }))
         ]
       },
       {
         text: 'API Reference',
         items: [
           { text: 'API Overview', link: '/api/overview' },
-          { text: 'ContextSnapshot', link: '/api/context-snapshot' },
-          { text: 'CausalityService', link: '/api/causality-service' },
-          { text: 'MemoryManagerService', link: '/api/memory-manager-service' },
-          { text: 'PropagationService', link: '/api/propagation-service' }
+          ...apiClasses.map(apiClass => ({ text: apiClass.name, link: apiClassLink(apiClass) }))
         ]
       },
       {
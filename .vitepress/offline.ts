@@ -0,0 +1,49 @@
+/// <reference types="node" />
+/**
+ * Build step for offline reading: writes `sw.js` into the built site with
+ * every page and asset in its precache list (see `service-worker.js`).
+ *
+ * The worker's version is a hash of the built files, so a deploy that
+ * changes nothing leaves readers without an update prompt, and any change,
+ * even to a single page, produces a new worker that browsers pick up.
+ */
+
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join, relative, sep } from 'node:path'
+
+const SERVICE_WORKER = 'sw.js'
+// Not worth a place in the cache: source maps, and Wrangler's routing files
+const SKIPPED = /\.map$|^_headers$|^_redirects$/
+
+function builtFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name)
+    return entry.isDirectory() ? builtFiles(path) : [path]
+  })
+}
+
+// Pages under the URLs the Wrangler assets Worker serves without a redirect
+function precacheUrl(file: string): string {
+  const url = `/${file.split(sep).join('/')}`
+  if (url.endsWith('/index.html')) return url.slice(0, -'index.html'.length)
+  if (url.endsWith('.html')) return url.slice(0, -'.html'.length)
+  return url
+}
+
+/** Write the service worker for the site built into `outDir`. */
+export function writeServiceWorker(outDir: string): void {
+  const files = builtFiles(outDir)
+    .map(path => relative(outDir, path))
+    .filter(file => file !== SERVICE_WORKER && !SKIPPED.test(file.split(sep).pop()!))
+    .sort()
+
+  const hash = createHash('sha256')
+  for (const file of files) hash.update(file).update(readFileSync(join(outDir, file)))
+  const version = hash.digest('hex').slice(0, 12)
+
+  const source = readFileSync(new URL('./service-worker.js', import.meta.url), 'utf-8')
+    .replace(`/* version */ 'dev'`, JSON.stringify(version))
+    .replace('/* precache */ []', JSON.stringify(files.map(precacheUrl), null, 2))
+  writeFileSync(join(outDir, SERVICE_WORKER), source)
+}
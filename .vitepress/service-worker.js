@@ -0,0 +1,77 @@
+/**
+ * Service worker for reading the docs offline. `offline.ts` fills in the
+ * version and the precache list at build time and writes this file to
+ * `dist/sw.js`; it is plain JavaScript because it runs outside the site's
+ * bundle.
+ *
+ * Every built page and asset is cached when the worker installs, and served
+ * from the cache first, so pages and the hashed bundles they load always
+ * come from the same build. A new build installs next to the old one and
+ * waits until the reader accepts the update prompt, which posts
+ * `SKIP_WAITING`. The /sandbox MCP endpoint is never cached.
+ */
+
+const VERSION = /* version */ 'dev'
+const PRECACHE = /* precache */ []
+
+const CACHE_PREFIX = 'wakeiqx-docs-'
+const CACHE = `${CACHE_PREFIX}${VERSION}`
+const NOT_FOUND_PAGE = '/404'
+
+// Pages are cached under the URLs the Wrangler assets Worker serves them at:
+// `/guide.html` redirects to `/guide` and `/dir/index.html` to `/dir/`
+function pageKey(pathname) {
+  if (pathname.endsWith('/index.html')) return pathname.slice(0, -'index.html'.length)
+  if (pathname.endsWith('.html')) return pathname.slice(0, -'.html'.length)
+  return pathname
+}
+
+// A redirected response can't answer a navigation, so keep only its body
+async function cacheable(response) {
+  if (!response.redirected) return response
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers: response.headers })
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE)
+    await Promise.all(PRECACHE.map(async url => {
+      const response = await fetch(url, { cache: 'reload' })
+      if (!response.ok) throw new Error(`Precaching ${url} failed with HTTP ${response.status}`)
+      await cache.put(url, await cacheable(response))
+    }))
+  })())
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(names.filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE).map(name => caches.delete(name)))
+    await self.clients.claim()
+  })())
+})
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting()
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/sandbox/')) return
+
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE)
+    if (request.mode === 'navigate') {
+      // The playground keeps its state in the query string
+      const page = await cache.match(pageKey(url.pathname), { ignoreSearch: true })
+      if (page) return page
+      try {
+        return await fetch(request)
+      } catch {
+        return (await cache.match(NOT_FOUND_PAGE)) ?? Response.error()
+      }
+    }
+    return (await cache.match(request)) ?? fetch(request)
+  })())
+})
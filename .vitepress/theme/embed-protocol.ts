@@ -0,0 +1,89 @@
+/**
+ * The embeddable playground: the options its URL takes and the messages it
+ * exchanges with the page that frames it.
+ *
+ * `/embed/<scenario ID>` plays one scenario (see `PlaygroundEmbed.vue`), and
+ * `/embed/host` waits for the framing page to send its own. The embed posts
+ * to its parent window:
+ *
+ * - `wakeiqx:ready` once it has loaded, and can take a scenario on `/embed/host`
+ * - `wakeiqx:step` whenever the step or the path through the scenario changes
+ * - `wakeiqx:error` when there is no such scenario, or the host's is invalid
+ *
+ * and accepts `wakeiqx:scenario` from its parent. `public/embed.js` wraps
+ * all of this in a `<wakeiqx-playground>` element for host pages.
+ */
+
+import { scenarioTemplateErrors, type Scenario } from './playground-data'
+import { parsePlaygroundState } from './playground-state'
+import { ScenarioFormatError, scenarioFromDocument, type ScenarioDocument } from './scenario-format'
+
+/** The embed page that plays the scenario its host sends. */
+export const HOST_SCENARIO_ID = 'host'
+
+export type EmbedTheme = 'light' | 'dark' | 'auto'
+
+export interface EmbedOptions {
+  /** The follow-up picked at each branch point, as in the playground's `path`. */
+  path: number[]
+  /** Zero-based step to open at; `step` in the URL counts from 1. */
+  step: number
+  /** `auto` follows the reader's system setting. */
+  theme: EmbedTheme
+  autoplay: boolean
+}
+
+export type EmbedMessage =
+  | { type: 'wakeiqx:ready'; scenarioId: string }
+  | {
+    type: 'wakeiqx:step'
+    scenarioId: string
+    /** The step showing, counting from 1. */
+    step: number
+    /** Steps along `path`; picking a follow-up adds more. */
+    steps: number
+    path: number[]
+    /** The last step shows, with no follow-ups left to pick. */
+    complete: boolean
+  }
+  | { type: 'wakeiqx:error'; scenarioId: string; problems: string[] }
+
+/** A scenario from the host page, in the format of `playground/*.yaml`. */
+export interface HostScenarioMessage {
+  type: 'wakeiqx:scenario'
+  scenario: ScenarioDocument
+}
+
+const THEMES: EmbedTheme[] = ['light', 'dark', 'auto']
+
+/**
+ * Read embed options from a query string such as `?step=4&theme=dark&autoplay`.
+ * Like the playground's, malformed values fall back to their defaults.
+ */
+export function parseEmbedOptions(search: string): EmbedOptions {
+  const params = new URLSearchParams(search)
+  const { path, step } = parsePlaygroundState(search)
+  const autoplay = params.get('autoplay')
+  return {
+    path,
+    step,
+    theme: THEMES.find(theme => theme === params.get('theme')) ?? 'auto',
+    autoplay: autoplay !== null && autoplay !== 'false' && autoplay !== '0'
+  }
+}
+
+export function isHostScenarioMessage(data: unknown): data is HostScenarioMessage {
+  return typeof data === 'object' && data !== null && (data as { type?: unknown }).type === 'wakeiqx:scenario'
+}
+
+/**
+ * Check a scenario sent by the host page as the build checks scenario files.
+ * Throws a `ScenarioFormatError` listing every problem found.
+ */
+export function hostScenario(document: unknown): Scenario {
+  const source = 'from the host page'
+  const { order, ...scenario } = scenarioFromDocument(HOST_SCENARIO_ID, document, source)
+  const templateErrors = scenarioTemplateErrors(scenario)
+  if (templateErrors.length) throw new ScenarioFormatError(source, templateErrors)
+  return scenario
+}
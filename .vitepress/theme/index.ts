@@ -1,4 +1,18 @@
+import { h } from 'vue'
 import DefaultTheme from 'vitepress/theme'
+import type { Theme } from 'vitepress'
+import CausalGraph from './components/CausalGraph.vue'
+import OfflineStatus from './components/OfflineStatus.vue'
+import ToolExample from './components/ToolExample.vue'
 import './custom.css'
 
-export default DefaultTheme
+export default {
+  extends: DefaultTheme,
+  Layout: () => h(DefaultTheme.Layout, null, {
+    'layout-bottom': () => h(OfflineStatus)
+  }),
+  enhanceApp({ app }) {
+    app.component('CausalGraph', CausalGraph)
+    app.component('ToolExample', ToolExample)
+  }
+} satisfies Theme
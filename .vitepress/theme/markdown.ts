@@ -0,0 +1,125 @@
+/**
+ * Markdown rendering for playground messages.
+ *
+ * Message content is parsed with markdown-it (the parser VitePress uses for
+ * pages), code fences are highlighted with the same Shiki themes as
+ * `markdown.theme` in config.mts, and the resulting HTML is filtered against
+ * an allowlist before it reaches `v-html`. Raw HTML in the source is never
+ * passed through, so scenarios from any origin render as inert markup.
+ */
+
+import { shallowRef } from 'vue'
+import MarkdownIt from 'markdown-it'
+import { FilterXSS, type IWhiteList } from 'xss'
+import type { HighlighterCore } from 'shiki/core'
+
+const CODE_THEMES = {
+  light: 'github-light',
+  dark: 'one-dark-pro'
+} as const
+
+const highlighter = shallowRef<HighlighterCore | null>(null)
+let highlighterLoading: Promise<void> | null = null
+
+/**
+ * Load Shiki with the grammars playground messages use. Messages render as
+ * plain code blocks until this resolves, then re-render highlighted.
+ */
+export function loadHighlighter(): Promise<void> {
+  highlighterLoading ??= (async () => {
+    const [{ createHighlighterCore }, { createJavaScriptRegexEngine }] = await Promise.all([
+      import('shiki/core'),
+      import('shiki/engine/javascript')
+    ])
+    highlighter.value = await createHighlighterCore({
+      themes: [import('shiki/themes/github-light.mjs'), import('shiki/themes/one-dark-pro.mjs')],
+      langs: [
+        import('shiki/langs/typescript.mjs'),
+        import('shiki/langs/javascript.mjs'),
+        import('shiki/langs/json.mjs'),
+        import('shiki/langs/shellscript.mjs'),
+        import('shiki/langs/sql.mjs'),
+        import('shiki/langs/yaml.mjs')
+      ],
+      engine: createJavaScriptRegexEngine()
+    })
+  })()
+  return highlighterLoading
+}
+
+const markdown: MarkdownIt = new MarkdownIt({
+  html: false,
+  linkify: true,
+  breaks: true,
+  highlight(code, lang) {
+    const shiki = highlighter.value
+    if (!shiki) return ''
+    return shiki.codeToHtml(code, {
+      lang: shiki.getLoadedLanguages().includes(lang) ? lang : 'text',
+      themes: CODE_THEMES,
+      defaultColor: false,
+      transformers: [
+        {
+          pre(node) {
+            this.addClassToHast(node, 'vp-code')
+          }
+        }
+      ]
+    })
+  }
+})
+
+// Wrap fences the way VitePress does, so code blocks pick up the site's
+// styles and its copy button
+const renderFence = markdown.renderer.rules.fence!
+markdown.renderer.rules.fence = (tokens, index, options, env, self) => {
+  const lang = tokens[index].info.trim().split(/\s+/)[0] || 'txt'
+  const className = markdown.utils.escapeHtml(`language-${lang} vp-adaptive-theme`)
+  return `<div class="${className}"><button title="Copy Code" class="copy"></button>` +
+    `<span class="lang">${markdown.utils.escapeHtml(lang)}</span>` +
+    renderFence(tokens, index, options, env, self) +
+    '</div>'
+}
+
+const ALLOWED_TAGS: IWhiteList = {
+  p: [], br: [], hr: [], strong: [], em: [], s: [], blockquote: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  ul: [], ol: ['start'], li: [],
+  a: ['href', 'title'],
+  code: ['class'],
+  pre: ['class', 'style', 'tabindex'],
+  span: ['class', 'style'],
+  div: ['class'],
+  button: ['class', 'title'],
+  table: [], thead: [], tbody: [], tr: [], th: ['style'], td: ['style']
+}
+
+// Style declarations Shiki and markdown-it tables emit; anything else is dropped
+const ALLOWED_STYLES = [
+  /^--shiki-(light|dark)(-bg)?:#[0-9a-f]{3,8}$/i,
+  /^(color|background-color):#[0-9a-f]{3,8}$/i,
+  /^text-align:(left|right|center)$/
+]
+
+const sanitizer = new FilterXSS({
+  whiteList: ALLOWED_TAGS,
+  stripIgnoreTag: true,
+  stripIgnoreTagBody: ['script', 'style'],
+  // Other attributes go through xss's default URL and value checks
+  onTagAttr(_tag, name, value) {
+    if (name !== 'style') return
+    const declarations = value
+      .split(';')
+      .map(declaration => declaration.replace(/\s+/g, ''))
+      .filter(declaration => ALLOWED_STYLES.some(pattern => pattern.test(declaration)))
+    return declarations.length ? `style="${declarations.join(';')}"` : ''
+  }
+})
+
+/**
+ * Render message content to sanitized HTML. Reads the highlighter state, so
+ * a `computed` around it re-renders once Shiki has loaded.
+ */
+export function renderMarkdown(source: string): string {
+  return sanitizer.process(markdown.render(source))
+}
@@ -0,0 +1,250 @@
+/**
+ * A browser MCP client for the playground's live mode.
+ *
+ * Speaks the Streamable HTTP transport to a user's own WakeIQX server: POST
+ * `initialize`, keep the `Mcp-Session-Id` it returns, then POST `tools/call`
+ * requests. Responses may come back as JSON or as an SSE stream. Every
+ * message sent and received is reported to `onExchange` so the playground
+ * can show the JSON-RPC traffic.
+ */
+
+import type { RecordedToolResult, RecordedToolResultMessage, ToolInvocationMessage } from './playground-data'
+import type { LiveSettings } from './playground-state'
+import type { ToolName, ToolParams } from './tool-types'
+
+export const PROTOCOL_VERSION = '2025-06-18'
+
+const CLIENT_INFO = { name: 'wakeiqx-playground', version: '1.0.0' }
+const SESSION_HEADER = 'Mcp-Session-Id'
+
+type RequestId = number
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: RequestId | string | null
+  method?: string
+  params?: Record<string, unknown>
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
+
+/** One JSON-RPC message on the wire, in either direction. */
+export interface ExchangeEntry {
+  direction: 'sent' | 'received'
+  message: unknown
+  at: Date
+  /** HTTP status of the response that carried a received message. */
+  status?: number
+}
+
+export interface ServerInfo {
+  name: string
+  version: string
+  protocolVersion: string
+}
+
+/** A failed exchange: unreachable server, HTTP error or JSON-RPC error. */
+export class McpClientError extends Error {
+  constructor(message: string, readonly code?: number, readonly data?: unknown) {
+    super(message)
+    this.name = 'McpClientError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** The `data:` payloads of a complete SSE body, one per event. */
+function sseData(body: string): string[] {
+  return body
+    .split(/\r?\n\r?\n/)
+    .map(event => event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n'))
+    .filter(data => data !== '')
+}
+
+/** The message of a JSON-RPC error response body, if that is what it is. */
+function errorMessage(body: string): string | null {
+  try {
+    const parsed: unknown = JSON.parse(body)
+    return isRecord(parsed) && isRecord(parsed.error) && typeof parsed.error.message === 'string'
+      ? parsed.error.message
+      : null
+  } catch {
+    return null
+  }
+}
+
+/** Text content of a `tools/call` result, as the recorded sessions show it. */
+function resultText(result: unknown): RecordedToolResult {
+  if (!isRecord(result)) return { text: JSON.stringify(result, null, 2) }
+  const content = Array.isArray(result.content) ? result.content : []
+  const text = content
+    .map(part => isRecord(part) && part.type === 'text' && typeof part.text === 'string'
+      ? part.text
+      : JSON.stringify(part, null, 2))
+    .join('\n\n')
+  return { text, ...(result.isError === true && { isError: true }) }
+}
+
+export class McpClient {
+  private sessionId: string | null = null
+  private protocolVersion: string | null = null
+  private nextId = 1
+
+  constructor(
+    readonly url: string,
+    private readonly onExchange: (entry: ExchangeEntry) => void = () => {}
+  ) {}
+
+  /** Initialize a session. Resolves with what the server says about itself. */
+  async connect(): Promise<ServerInfo> {
+    const result = await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO
+    })
+    const info = isRecord(result) && isRecord(result.serverInfo) ? result.serverInfo : {}
+    this.protocolVersion = isRecord(result) && typeof result.protocolVersion === 'string'
+      ? result.protocolVersion
+      : PROTOCOL_VERSION
+
+    await this.notify('notifications/initialized')
+    return {
+      name: typeof info.name === 'string' ? info.name : 'MCP server',
+      version: typeof info.version === 'string' ? info.version : '',
+      protocolVersion: this.protocolVersion
+    }
+  }
+
+  /**
+   * Call a tool. Tool failures come back as `isError` results; protocol
+   * failures, such as invalid arguments, throw.
+   */
+  async callTool(name: ToolName, args: object): Promise<RecordedToolResult> {
+    return resultText(await this.request('tools/call', { name, arguments: args }))
+  }
+
+  /** End the session. Servers without session support may refuse; that is fine. */
+  async close(): Promise<void> {
+    if (!this.sessionId) return
+    await fetch(this.url, { method: 'DELETE', headers: this.headers() }).catch(() => {})
+    this.sessionId = null
+  }
+
+  private async request(method: string, params: Record<string, unknown>): Promise<unknown> {
+    const id = this.nextId++
+    const replies = await this.post({ jsonrpc: '2.0', id, method, params })
+    const reply = replies.find(message => message.id === id)
+    if (!reply) throw new McpClientError(`The server sent no response to ${method}`)
+    if (reply.error) throw new McpClientError(reply.error.message, reply.error.code, reply.error.data)
+    return reply.result
+  }
+
+  private async notify(method: string): Promise<void> {
+    await this.post({ jsonrpc: '2.0', method })
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      ...(this.sessionId && { [SESSION_HEADER]: this.sessionId }),
+      ...(this.protocolVersion && { 'Mcp-Protocol-Version': this.protocolVersion })
+    }
+  }
+
+  private async post(message: JsonRpcMessage): Promise<JsonRpcMessage[]> {
+    this.onExchange({ direction: 'sent', message, at: new Date() })
+
+    let response: Response
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...this.headers()
+        },
+        body: JSON.stringify(message)
+      })
+    } catch {
+      // Browsers report refused connections and CORS failures the same way
+      throw new McpClientError(
+        `Could not reach ${this.url}. Check that the server is running and allows cross-origin requests from this page.`
+      )
+    }
+
+    this.sessionId = response.headers.get(SESSION_HEADER) ?? this.sessionId
+    const body = await response.text()
+
+    if (!response.ok) {
+      if (response.status === 404 && this.sessionId && message.method !== 'initialize') {
+        this.sessionId = null
+        throw new McpClientError('The server ended the session. Reconnect to start a new one.', response.status)
+      }
+      const detail = errorMessage(body) ?? (body.length > 200 ? `${body.slice(0, 200)}…` : body)
+      throw new McpClientError(`HTTP ${response.status} from ${this.url}${detail ? `: ${detail}` : ''}`, response.status)
+    }
+
+    const payloads = response.headers.get('Content-Type')?.includes('text/event-stream')
+      ? sseData(body)
+      : body.trim() ? [body] : []
+
+    const replies: JsonRpcMessage[] = []
+    for (const payload of payloads) {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(payload)
+      } catch {
+        throw new McpClientError(`The server sent a response that is not JSON: ${payload.slice(0, 200)}`)
+      }
+      for (const reply of Array.isArray(parsed) ? parsed : [parsed]) {
+        this.onExchange({ direction: 'received', message: reply, at: new Date(), status: response.status })
+        if (isRecord(reply)) replies.push(reply as unknown as JsonRpcMessage)
+      }
+    }
+    return replies
+  }
+}
+
+/**
+ * Tools that change the server's data: `load_context` reads, but records
+ * each access on the contexts it returns.
+ */
+const WRITE_TOOLS: ToolName[] = ['save_context', 'load_context', 'update_predictions']
+
+/** Whether a tool call would change data on the server it is sent to. */
+export function isWriteTool(name: ToolName): boolean {
+  return WRITE_TOOLS.includes(name)
+}
+
+/**
+ * A scenario's tool call with the user's project and snapshot in place of
+ * the demo's, so scripted calls reach real data.
+ */
+export function liveInvocation(invocation: ToolInvocationMessage, settings: LiveSettings): ToolInvocationMessage {
+  const params: Record<string, unknown> = { ...invocation.toolParams }
+  if (settings.project.trim() && 'project' in params) params.project = settings.project.trim()
+  if (settings.snapshotId.trim() && 'snapshotId' in params) params.snapshotId = settings.snapshotId.trim()
+  return { ...invocation, toolParams: params as unknown as ToolParams<ToolName> } as ToolInvocationMessage
+}
+
+/** Run an invocation against a live server; failures become error results. */
+export async function runLiveInvocation(
+  client: McpClient,
+  invocation: ToolInvocationMessage,
+  content = `Tool Result - ${invocation.toolName}`
+): Promise<RecordedToolResultMessage> {
+  let recordedResult: RecordedToolResult
+  try {
+    recordedResult = await client.callTool(invocation.toolName, invocation.toolParams)
+  } catch (error) {
+    const { message, data } = error as McpClientError
+    const details = Array.isArray(data) ? `\n${data.map(problem => `- ${String(problem)}`).join('\n')}` : ''
+    recordedResult = { text: `${message}${details}`, isError: true }
+  }
+  return { role: 'tool', content, toolName: invocation.toolName, recordedResult: { ...recordedResult, live: true } }
+}
@@ -0,0 +1,23 @@
+import type { ActionType, MemoryTier, ScoreBreakdown } from './wake-engine'
+
+// Shared by the playground's graph, timeline and result views
+export const ACTION_COLORS: Record<ActionType, string> = {
+  conversation: '#3b82f6',
+  research: '#8b5cf6',
+  decision: '#f59e0b',
+  file_edit: '#10b981',
+  tool_use: '#06b6d4'
+}
+
+export const TIER_COLORS: Record<MemoryTier, string> = {
+  ACTIVE: '#ef4444',
+  RECENT: '#f97316',
+  ARCHIVED: '#64748b',
+  EXPIRED: '#94a3b8'
+}
+
+export const FACTOR_COLORS: Record<keyof ScoreBreakdown, string> = {
+  temporal: '#06b6d4',
+  causal: '#3b82f6',
+  frequency: '#8b5cf6'
+}
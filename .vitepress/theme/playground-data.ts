@@ -1,9 +1,85 @@
-export interface Message {
-  role: 'user' | 'system' | 'tool' | 'assistant'
+import { WakeEngine, type ContextSeed } from './wake-engine'
+import type { ToolError, ToolName, ToolParams, ToolResult } from './tool-types'
+import { renderTemplate, TemplateError, type TemplateData, type TemplateFormat } from './reply-templates'
+import { generateCorpus, type CorpusOptions } from './synthetic-corpus'
+
+export interface ChatMessage {
+  role: 'user' | 'system' | 'assistant'
+  content: string
+}
+
+/** A tool call, discriminated on `toolName` so params are checked per tool. */
+export type ToolInvocationMessage<N extends ToolName = ToolName> = N extends ToolName
+  ? {
+      role: 'tool'
+      content: string
+      toolName: N
+      toolParams: ToolParams<N>
+      toolResult?: never
+      recordedResult?: never
+    }
+  : never
+
+/** The outcome of the invocation before it, filled in by the playground engine. */
+export type ToolResultMessage<N extends ToolName = ToolName> = N extends ToolName
+  ? {
+      role: 'tool'
+      content: string
+      toolName: N
+      toolParams?: never
+      toolResult: ToolResult<N> | ToolError
+      recordedResult?: never
+    }
+  : never
+
+/** Tool output as an MCP server returned it, e.g. from an imported transcript. */
+export interface RecordedToolResult {
+  text: string
+  isError?: boolean
+  /** Returned just now by the server connected in live mode. */
+  live?: boolean
+}
+
+/** The recorded outcome of the invocation before it, shown as-is. */
+export interface RecordedToolResultMessage {
+  role: 'tool'
   content: string
-  toolName?: string
-  toolParams?: any
-  toolResult?: any
+  toolName: ToolName
+  toolParams?: never
+  toolResult?: never
+  recordedResult: RecordedToolResult
+}
+
+/** Placeholder for a tool result in scenario scripts. */
+export interface PendingToolResultMessage {
+  role: 'tool'
+  content: string
+  toolName?: never
+  toolResult?: never
+  recordedResult?: never
+}
+
+/** A message as the playground renders it. */
+export type Message = ChatMessage | ToolInvocationMessage | ToolResultMessage | RecordedToolResultMessage
+
+/**
+ * A message as scenarios script it. Tool results are not written here: a
+ * `tool` message with `toolName` and `toolParams` is an invocation, and the
+ * `tool` message after it shows the result the playground engine computes
+ * for that call, unless it carries a `recordedResult`.
+ */
+export type ScenarioMessage =
+  | ChatMessage
+  | ToolInvocationMessage
+  | PendingToolResultMessage
+  | RecordedToolResultMessage
+
+/** A follow-up the reader can pick where the messages before it end. */
+export interface ScenarioChoice {
+  label: string
+  messages: ScenarioMessage[]
+  /** Follow-ups offered after this choice's messages. */
+  choices?: ScenarioChoice[]
 }
 
 export interface Scenario {
@@ -12,517 +88,315 @@ export interface Scenario {
   title: string
   description: string
   category: string
-  messages: Message[]
+  /** Interactive panel shown above the conversation. */
+  panel?: 'memory-timeline' | 'prediction-tuner'
+  /** ISO time the engine runs this scenario at; `playgroundNow` by default. */
+  now?: string
+  /** Contexts added to `playgroundContexts` while this scenario runs. */
+  contexts?: ContextSeed[]
+  /** Options for synthetic contexts generated into the store as well (see `synthetic-corpus`). */
+  corpus?: Partial<CorpusOptions>
+  messages: ScenarioMessage[]
+  /** Follow-ups offered after `messages`, each continuing down its own path. */
+  choices?: ScenarioChoice[]
 }
 
-export const playgroundScenarios: Scenario[] = [
-  {
-    id: 'causal-chain',
-    icon: '🔍',
-    title: 'Development Session - Causal Chain',
-    description: 'See how Layer 1 (Causality Engine) tracks decision history backwards through time',
-    category: 'Layer 1: Past (WHY)',
-    messages: [
-      {
-        role: 'user',
-        content: 'I want to trace back why I made certain architecture decisions in my auth system'
-      },
-      {
-        role: 'system',
-        content: 'Analyzing causal chain for authentication architecture...'
-      },
-      {
-        role: 'tool',
-        content: 'Tool Invocation',
-        toolName: 'build_causal_chain',
-        toolParams: {
-          snapshotId: 'ctx_auth_final_implementation_789'
-        }
-      },
-      {
-        role: 'tool',
-        content: 'Tool Result - Causal Chain Built',
-        toolResult: {
-          chain: [
-            {
-              id: 'ctx_auth_final_implementation_789',
-              summary: 'Implemented JWT tokens with refresh token rotation',
-              timestamp: '2024-10-17T15:30:00Z',
-              causedBy: 'ctx_auth_oauth2_research_456',
-              actionType: 'implementation',
-              depth: 0
-            },
-            {
-              id: 'ctx_auth_oauth2_research_456',
-              summary: 'Researched OAuth2 vs JWT trade-offs',
-              timestamp: '2024-10-17T14:15:00Z',
-              causedBy: 'ctx_auth_security_discussion_123',
-              actionType: 'research',
-              depth: 1
-            },
-            {
-              id: 'ctx_auth_security_discussion_123',
-              summary: 'Team discussion: security requirements for multi-tenant auth',
-              timestamp: '2024-10-17T10:00:00Z',
-              causedBy: null,
-              actionType: 'conversation',
-              depth: 2
-            }
-          ],
-          totalDepth: 2,
-          rootCause: {
-            id: 'ctx_auth_security_discussion_123',
-            summary: 'Team discussion: security requirements for multi-tenant auth'
-          }
-        }
-      },
-      {
-        role: 'assistant',
-        content: `🔍 **Causal Chain Discovered** (3 decisions deep)
-
-**Your Final Implementation:**
-→ Implemented JWT tokens with refresh token rotation
-
-**Was Caused By:**
-1. **Research Phase** (5 hours ago)
-   • Researched OAuth2 vs JWT trade-offs
-
-2. **Original Discussion** (ROOT CAUSE)
-   • Team discussion: security requirements for multi-tenant auth
-   • This is WHERE IT ALL STARTED
+/** Where a list of choices, one index per branch point, leads in a scenario. */
+export interface ScenarioPath {
+  /** The choices that exist, in order; the rest of the list is dropped. */
+  path: number[]
+  messages: ScenarioMessage[]
+  /** Index in `messages` of the first message after each choice in `path`. */
+  choiceSteps: number[]
+  /** Follow-ups offered after the last message; empty at the end of a path. */
+  choices: ScenarioChoice[]
+}
 
-**Insight:** Your JWT implementation traces back to a team security discussion this morning. The research phase evaluated OAuth2 but you chose JWTs with rotation for simplicity + security.
+/** Follow the choices in `path` from the start of a scenario. */
+export function resolveScenarioPath(scenario: Scenario, path: number[]): ScenarioPath {
+  const resolved: ScenarioPath = { path: [], messages: [...scenario.messages], choiceSteps: [], choices: scenario.choices ?? [] }
+
+  for (const index of path) {
+    const choice = resolved.choices[index]
+    if (!choice) break
+    resolved.path.push(index)
+    resolved.choiceSteps.push(resolved.messages.length)
+    resolved.messages.push(...choice.messages)
+    resolved.choices = choice.choices ?? []
+  }
+  return resolved
+}
 
-**Memory Status:** All 3 contexts are in RECENT tier (accessed today)`
-      }
-    ]
-  },
-  {
-    id: 'memory-tiers',
-    icon: '💾',
-    title: 'Memory Tier Evolution',
-    description: 'Watch how Layer 2 (Memory Manager) manages context lifecycle over time',
-    category: 'Layer 2: Present (HOW)',
-    messages: [
-      {
-        role: 'user',
-        content: 'Show me how my contexts are distributed across memory tiers'
-      },
-      {
-        role: 'system',
-        content: 'Analyzing memory tier distribution...'
-      },
-      {
-        role: 'tool',
-        content: 'Tool Invocation',
-        toolName: 'get_memory_stats',
-        toolParams: {
-          project: 'ai-consulting-platform'
-        }
-      },
-      {
-        role: 'tool',
-        content: 'Tool Result - Memory Statistics',
-        toolResult: {
-          project: 'ai-consulting-platform',
-          active: 5,
-          recent: 23,
-          archived: 67,
-          expired: 12,
-          total: 107,
-          oldestContext: '2024-07-15T08:30:00Z',
-          newestContext: '2024-10-17T16:45:00Z'
-        }
-      },
-      {
-        role: 'assistant',
-        content: `💾 **Memory Statistics for ai-consulting-platform**
+/** Every way through a scenario to an end, as the choices taken. */
+export function scenarioPaths(scenario: Scenario): number[][] {
+  const walk = (choices: ScenarioChoice[] | undefined, path: number[]): number[][] =>
+    choices?.length
+      ? choices.flatMap((choice, index) => walk(choice.choices, [...path, index]))
+      : [path]
+  return walk(scenario.choices, [])
+}
 
-📊 **Memory Tier Distribution:**
-  - 🔥 ACTIVE (< 1 hour): **5 contexts**
-  - ⚡ RECENT (1-24 hours): **23 contexts**
-  - 📦 ARCHIVED (1-30 days): **67 contexts**
-  - ❄️  EXPIRED (> 30 days): **12 contexts**
+/** The scenario as a straight conversation along `path`, without further choices. */
+export function scenarioOnPath(scenario: Scenario, path: number[]): Scenario {
+  const { choices, ...linear } = scenario
+  return { ...linear, messages: resolveScenarioPath(scenario, path).messages }
+}
 
-📈 **Total Contexts:** 107
+/** Run an invocation against the engine, turning failures into a `ToolError`. */
+export function runToolInvocation(
+  engine: WakeEngine,
+  invocation: ToolInvocationMessage,
+  content = `Tool Result - ${invocation.toolName}`
+): ToolResultMessage {
+  let toolResult: ToolResult<ToolName> | ToolError
+  try {
+    toolResult = engine.invoke(invocation.toolName, invocation.toolParams)
+  } catch (error) {
+    toolResult = { error: (error as Error).message }
+  }
+  return { role: 'tool', content, toolName: invocation.toolName, toolResult } as ToolResultMessage
+}
 
-**Age Range:**
-- Oldest: July 15, 2024 (3 months ago)
-- Newest: Today at 4:45 PM
+// Simulated "now" the playground engine runs every scenario at
+export const playgroundNow = '2024-10-17T17:00:00Z'
 
-**Health Assessment:**
-✅ Good distribution - 28 contexts in hot tiers (ACTIVE + RECENT)
-⚠️  12 expired contexts ready for pruning (11% of total)
+export const playgroundProject = 'ai-consulting-platform'
 
-**Recommendation:** Run \`prune_expired_contexts\` to reclaim space from contexts older than 30 days`
-      }
-    ]
+// Contexts stored in the playground engine before any scenario runs
+export const playgroundContexts: ContextSeed[] = [
+  {
+    id: 'ctx_auth_security_discussion_123',
+    project: playgroundProject,
+    summary: 'Team discussion: security requirements for multi-tenant authentication',
+    tags: 'authentication, security, multi-tenant, requirements',
+    timestamp: '2024-10-17T10:00:00Z',
+    actionType: 'conversation',
+    causedBy: null,
+    rationale: 'Multi-tenant customers need isolated sessions and auditable logins',
+    lastAccessed: '2024-10-17T10:30:00Z',
+    accessCount: 3
   },
   {
-    id: 'future-prediction',
-    icon: '🔮',
-    title: 'Future Context Prediction',
-    description: 'See Layer 3 (Propagation Engine) predict which contexts you\'ll need next',
-    category: 'Layer 3: Future (WHAT)',
-    messages: [
-      {
-        role: 'user',
-        content: 'What contexts am I likely to need for my upcoming work?'
-      },
-      {
-        role: 'system',
-        content: 'Calculating prediction scores using multi-factor algorithm...'
-      },
-      {
-        role: 'tool',
-        content: 'Tool Invocation',
-        toolName: 'get_high_value_contexts',
-        toolParams: {
-          project: 'ai-consulting-platform',
-          minScore: 0.6,
-          limit: 5
-        }
-      },
-      {
-        role: 'tool',
-        content: 'Tool Result - High-Value Predictions',
-        toolResult: {
-          contexts: [
-            {
-              id: 'ctx_auth_jwt_implementation_789',
-              summary: 'JWT token implementation with refresh rotation',
-              predictionScore: 0.85,
-              predictionReason: 'High temporal momentum (accessed 3x today) + Root cause in active chain + Frequent reference pattern',
-              lastAccessed: '2024-10-17T15:30:00Z',
-              memoryTier: 'ACTIVE',
-              causalDepth: 0,
-              accessCount: 8
-            },
-            {
-              id: 'ctx_database_migration_schema_456',
-              summary: 'Database migration plan for multi-tenancy',
-              predictionScore: 0.78,
-              predictionReason: 'Causal dependency (root of 3 decisions) + Recent access spike + Production environment',
-              lastAccessed: '2024-10-17T14:20:00Z',
-              memoryTier: 'RECENT',
-              causalDepth: 0,
-              accessCount: 5
-            },
-            {
-              id: 'ctx_api_rate_limiting_design_234',
-              summary: 'API rate limiting strategy discussion',
-              predictionScore: 0.72,
-              predictionReason: 'Part of active causal chain + Medium access frequency + Related to current work',
-              lastAccessed: '2024-10-17T11:00:00Z',
-              memoryTier: 'RECENT',
-              causalDepth: 1,
-              accessCount: 4
-            },
-            {
-              id: 'ctx_deployment_cloudflare_workers_123',
-              summary: 'Cloudflare Workers deployment configuration',
-              predictionScore: 0.68,
-              predictionReason: 'Steady access pattern + Infrastructure context + Moderate causal importance',
-              lastAccessed: '2024-10-16T16:45:00Z',
-              memoryTier: 'RECENT',
-              causalDepth: 2,
-              accessCount: 6
-            },
-            {
-              id: 'ctx_testing_strategy_e2e_567',
-              summary: 'End-to-end testing strategy with Playwright',
-              predictionScore: 0.65,
-              predictionReason: 'Consistent weekly access + Testing phase approaching + High frequency score',
-              lastAccessed: '2024-10-15T09:30:00Z',
-              memoryTier: 'ARCHIVED',
-              causalDepth: 3,
-              accessCount: 7
-            }
-          ],
-          totalEvaluated: 107,
-          scoreBreakdown: {
-            temporal: 0.40,
-            causal: 0.30,
-            frequency: 0.30
-          }
-        }
-      },
-      {
-        role: 'assistant',
-        content: `🔮 **High-Value Context Predictions**
-
-Top 5 contexts you'll likely need soon (out of 107 evaluated):
-
-**1. JWT Token Implementation** [Score: 0.85]
-   📍 *ACTIVE tier* • Accessed 8 times • Root cause
-   🎯 High temporal momentum + Root of active chain
-
-**2. Database Migration Plan** [Score: 0.78]
-   📍 *RECENT tier* • Accessed 5 times • Root cause
-   🎯 Causal dependency + Recent spike + Production critical
-
-**3. API Rate Limiting Strategy** [Score: 0.72]
-   📍 *RECENT tier* • Accessed 4 times • Depth 1
-   🎯 Part of active chain + Related to current work
-
-**4. Cloudflare Workers Config** [Score: 0.68]
-   📍 *RECENT tier* • Accessed 6 times • Depth 2
-   🎯 Steady pattern + Infrastructure context
-
-**5. E2E Testing Strategy** [Score: 0.65]
-   📍 *ARCHIVED tier* • Accessed 7 times • Depth 3
-   🎯 Weekly access + Testing phase approaching
-
-**Scoring Algorithm:**
-• Temporal momentum: 40% (recent access patterns)
-• Causal position: 30% (root causes score higher)
-• Access frequency: 30% (popularity indicator)
-
-**Recommendation:** Pre-fetch contexts #1-3 for your next work session`
-      }
-    ]
+    id: 'ctx_auth_oauth2_research_456',
+    project: playgroundProject,
+    summary: 'Researched OAuth2 vs JWT trade-offs for authentication',
+    tags: 'oauth2, jwt, authentication, research',
+    timestamp: '2024-10-17T14:15:00Z',
+    actionType: 'research',
+    causedBy: 'ctx_auth_security_discussion_123',
+    rationale: 'Security requirements called for comparing token strategies',
+    lastAccessed: '2024-10-17T14:15:00Z',
+    accessCount: 2
   },
   {
-    id: 'save-and-reconstruct',
-    icon: '⚡',
-    title: 'Save Context & Reconstruct Reasoning',
-    description: 'Create a new context and later understand WHY it was created',
-    category: 'Full Cycle Demo',
-    messages: [
-      {
-        role: 'user',
-        content: 'Save this context: I decided to use Redis for session storage instead of in-memory, caused by our discussion about horizontal scaling'
-      },
-      {
-        role: 'system',
-        content: 'Saving context with causality tracking...'
-      },
-      {
-        role: 'tool',
-        content: 'Tool Invocation',
-        toolName: 'save_context',
-        toolParams: {
-          project: 'ai-consulting-platform',
-          summary: 'Redis session storage decision',
-          context: 'Decided to use Redis for session storage instead of in-memory cache. This enables horizontal scaling across multiple Workers instances and provides persistent sessions.',
-          causedBy: 'ctx_scaling_discussion_456',
-          actionType: 'decision',
-          rationale: 'Need for stateless Workers that can scale horizontally without session loss'
-        }
-      },
-      {
-        role: 'tool',
-        content: 'Tool Result - Context Saved',
-        toolResult: {
-          id: 'ctx_redis_session_decision_890',
-          project: 'ai-consulting-platform',
-          summary: 'Redis session storage decision',
-          timestamp: '2024-10-17T16:50:00Z',
-          memoryTier: 'ACTIVE',
-          causality: {
-            causedBy: 'ctx_scaling_discussion_456',
-            actionType: 'decision',
-            rationale: 'Need for stateless Workers that can scale horizontally without session loss'
-          },
-          propagation: {
-            predictionScore: 0.0,
-            lastUpdated: '2024-10-17T16:50:00Z'
-          }
-        }
-      },
-      {
-        role: 'assistant',
-        content: `✅ **Context Saved Successfully**
-
-**ID:** ctx_redis_session_decision_890
-**Summary:** Redis session storage decision
-**Memory Tier:** ACTIVE (< 1 hour old)
-
-**Layer 1 (Causality):**
-• Caused by: Scaling discussion (ctx_scaling_discussion_456)
-• Action type: Decision
-• Rationale recorded: ✅
-
-**Layer 2 (Memory):**
-• Initial tier: ACTIVE
-• Will age: RECENT (after 1 hour) → ARCHIVED (after 1 day)
-
-**Layer 3 (Propagation):**
-• Prediction score: Not yet calculated (run update_predictions)
-
-Your decision is now part of the temporal intelligence graph!`
-      },
-      {
-        role: 'user',
-        content: 'Later that week... why did I choose Redis again?'
-      },
-      {
-        role: 'system',
-        content: 'Reconstructing reasoning chain...'
-      },
-      {
-        role: 'tool',
-        content: 'Tool Invocation',
-        toolName: 'reconstruct_reasoning',
-        toolParams: {
-          snapshotId: 'ctx_redis_session_decision_890'
-        }
-      },
-      {
-        role: 'tool',
-        content: 'Tool Result - Reasoning Reconstructed',
-        toolResult: {
-          snapshot: {
-            id: 'ctx_redis_session_decision_890',
-            summary: 'Redis session storage decision',
-            timestamp: '2024-10-17T16:50:00Z'
-          },
-          reasoning: {
-            actionType: 'decision',
-            rationale: 'Need for stateless Workers that can scale horizontally without session loss',
-            causedBy: {
-              id: 'ctx_scaling_discussion_456',
-              summary: 'Horizontal scaling architecture discussion',
-              timestamp: '2024-10-17T14:30:00Z'
-            }
-          },
-          explanation: 'This decision was made because you needed stateless Workers that could scale horizontally. It was triggered by the scaling architecture discussion earlier that day.'
-        }
-      },
-      {
-        role: 'assistant',
-        content: `🔍 **Reasoning Reconstruction**
-
-**Your Decision:** Redis session storage
-**When:** October 17, 2024 at 4:50 PM
-
-**WHY You Made This Decision:**
-✦ **Rationale:** Need for stateless Workers that can scale horizontally without session loss
-
-**WHAT Triggered It:**
-← **Scaling Discussion** (2 hours earlier)
-   "Horizontal scaling architecture discussion"
-
-**The Story:**
-1. You had a discussion about horizontal scaling (2:30 PM)
-2. Realized in-memory sessions wouldn't work across Workers
-3. Decided on Redis for persistent, shared session storage (4:50 PM)
-
-**Memory Status:** Still in RECENT tier (accessed this week)
-
-**Insight:** This wasn't a random choice - it solved a specific architectural constraint from your scaling requirements.`
-      }
-    ]
+    id: 'ctx_auth_jwt_implementation_789',
+    project: playgroundProject,
+    summary: 'JWT token implementation with refresh rotation',
+    tags: 'jwt, authentication, refresh-tokens, rotation',
+    timestamp: '2024-10-17T15:30:00Z',
+    actionType: 'file_edit',
+    causedBy: 'ctx_auth_oauth2_research_456',
+    rationale: 'JWTs with rotation keep sessions stateless without running an OAuth2 server',
+    dependencies: ['ctx_auth_middleware_refactor_234'],
+    lastAccessed: '2024-10-17T16:30:00Z',
+    accessCount: 8
   },
   {
-    id: 'search-patterns',
-    icon: '🔎',
-    title: 'Semantic Search Across Time',
-    description: 'Find contexts by keyword and see how they connect across all 3 layers',
-    category: 'Cross-Layer Search',
-    messages: [
-      {
-        role: 'user',
-        content: 'Search for all contexts related to "authentication"'
-      },
-      {
-        role: 'system',
-        content: 'Searching across temporal intelligence graph...'
-      },
-      {
-        role: 'tool',
-        content: 'Tool Invocation',
-        toolName: 'search_context',
-        toolParams: {
-          project: 'ai-consulting-platform',
-          keywords: 'authentication'
-        }
-      },
-      {
-        role: 'tool',
-        content: 'Tool Result - Search Results',
-        toolResult: {
-          results: [
-            {
-              id: 'ctx_auth_jwt_implementation_789',
-              summary: 'JWT token implementation with refresh rotation',
-              timestamp: '2024-10-17T15:30:00Z',
-              memoryTier: 'ACTIVE',
-              predictionScore: 0.85,
-              causedBy: 'ctx_auth_oauth2_research_456',
-              actionType: 'implementation'
-            },
-            {
-              id: 'ctx_auth_oauth2_research_456',
-              summary: 'Researched OAuth2 vs JWT trade-offs for authentication',
-              timestamp: '2024-10-17T14:15:00Z',
-              memoryTier: 'RECENT',
-              predictionScore: 0.68,
-              causedBy: 'ctx_auth_security_discussion_123',
-              actionType: 'research'
-            },
-            {
-              id: 'ctx_auth_security_discussion_123',
-              summary: 'Team discussion: security requirements for multi-tenant authentication',
-              timestamp: '2024-10-17T10:00:00Z',
-              memoryTier: 'RECENT',
-              predictionScore: 0.52,
-              causedBy: null,
-              actionType: 'conversation'
-            },
-            {
-              id: 'ctx_auth_middleware_refactor_234',
-              summary: 'Refactored authentication middleware for better error handling',
-              timestamp: '2024-10-15T09:20:00Z',
-              memoryTier: 'ARCHIVED',
-              predictionScore: 0.45,
-              causedBy: 'ctx_auth_jwt_implementation_789',
-              actionType: 'refactor'
-            }
-          ],
-          totalFound: 4,
-          searchQuery: 'authentication',
-          project: 'ai-consulting-platform'
-        }
-      },
-      {
-        role: 'assistant',
-        content: `🔎 **Search Results: "authentication"**
-
-Found **4 contexts** in project *ai-consulting-platform*
-
----
-
-**1. JWT Implementation** (ACTIVE) [Score: 0.85]
-   📅 Today at 3:30 PM • Type: Implementation
-   🔗 Caused by: OAuth2 Research
-   🔮 High prediction score - likely needed soon
-
-**2. OAuth2 Research** (RECENT) [Score: 0.68]
-   📅 Today at 2:15 PM • Type: Research
-   🔗 Caused by: Security Discussion
-   🔮 Medium prediction - moderate priority
+    id: 'ctx_auth_middleware_refactor_234',
+    project: playgroundProject,
+    summary: 'Refactored authentication middleware for better error handling',
+    tags: 'authentication, middleware, error-handling, refactor',
+    timestamp: '2024-10-15T09:20:00Z',
+    actionType: 'file_edit',
+    causedBy: null,
+    rationale: 'Auth failures were surfacing as generic 500 errors',
+    lastAccessed: '2024-10-15T09:20:00Z',
+    accessCount: 3
+  },
+  {
+    id: 'ctx_scaling_discussion_456',
+    project: playgroundProject,
+    summary: 'Horizontal scaling architecture discussion',
+    tags: 'scaling, workers, sessions, architecture',
+    timestamp: '2024-10-17T14:30:00Z',
+    actionType: 'conversation',
+    causedBy: 'ctx_legacy_session_store_012',
+    rationale: 'The in-memory session prototype cannot span multiple Workers instances',
+    lastAccessed: '2024-10-17T14:30:00Z',
+    accessCount: 1
+  },
+  {
+    id: 'ctx_database_migration_schema_456',
+    project: playgroundProject,
+    summary: 'Database migration plan for multi-tenancy',
+    tags: 'database, migration, multi-tenant, d1',
+    timestamp: '2024-10-15T11:00:00Z',
+    actionType: 'decision',
+    causedBy: null,
+    rationale: 'Tenant isolation has to be enforced at the schema level',
+    lastAccessed: '2024-10-17T14:20:00Z',
+    accessCount: 5
+  },
+  {
+    id: 'ctx_api_rate_limiting_design_234',
+    project: playgroundProject,
+    summary: 'API rate limiting strategy discussion',
+    tags: 'api, rate-limiting, security',
+    timestamp: '2024-10-15T15:00:00Z',
+    actionType: 'decision',
+    causedBy: 'ctx_database_migration_schema_456',
+    rationale: 'Per-tenant quotas protect the shared database',
+    lastAccessed: '2024-10-17T11:00:00Z',
+    accessCount: 4
+  },
+  {
+    id: 'ctx_deployment_cloudflare_workers_123',
+    project: playgroundProject,
+    summary: 'Cloudflare Workers deployment configuration',
+    tags: 'cloudflare, workers, deployment, wrangler',
+    timestamp: '2024-10-16T09:00:00Z',
+    actionType: 'file_edit',
+    causedBy: 'ctx_api_rate_limiting_design_234',
+    rationale: 'Rate limits are enforced at the edge',
+    dependencies: ['ctx_initial_stack_research_001'],
+    lastAccessed: '2024-10-16T16:45:00Z',
+    accessCount: 6
+  },
+  {
+    id: 'ctx_testing_strategy_e2e_567',
+    project: playgroundProject,
+    summary: 'End-to-end testing strategy with Playwright',
+    tags: 'testing, e2e, playwright',
+    timestamp: '2024-10-16T10:00:00Z',
+    actionType: 'research',
+    causedBy: 'ctx_deployment_cloudflare_workers_123',
+    rationale: 'Edge deployments need tests against the deployed Worker',
+    lastAccessed: '2024-10-16T10:00:00Z',
+    accessCount: 7
+  },
+  {
+    id: 'ctx_pricing_model_brainstorm_045',
+    project: playgroundProject,
+    summary: 'Pricing model brainstorm for consulting tiers',
+    tags: 'pricing, business, tiers',
+    timestamp: '2024-10-01T13:00:00Z',
+    actionType: 'conversation',
+    causedBy: null,
+    lastAccessed: '2024-10-02T09:00:00Z',
+    accessCount: 1
+  },
+  {
+    id: 'ctx_legacy_session_store_012',
+    project: playgroundProject,
+    summary: 'Legacy in-memory session store prototype',
+    tags: 'sessions, in-memory, prototype',
+    timestamp: '2024-07-15T08:30:00Z',
+    actionType: 'file_edit',
+    causedBy: null,
+    rationale: 'Quickest way to get logins working for the first demo',
+    lastAccessed: '2024-08-20T12:00:00Z',
+    accessCount: 2
+  },
+  {
+    id: 'ctx_initial_stack_research_001',
+    project: playgroundProject,
+    summary: 'Initial stack research: Workers vs containers',
+    tags: 'workers, containers, research, stack',
+    timestamp: '2024-08-01T09:00:00Z',
+    actionType: 'research',
+    causedBy: null,
+    rationale: 'Needed a hosting model before the first prototype',
+    lastAccessed: '2024-09-02T10:00:00Z',
+    accessCount: 2
+  }
+]
 
-**3. Security Discussion** (RECENT) [Score: 0.52]
-   📅 Today at 10:00 AM • Type: Conversation
-   🔗 ROOT CAUSE (no parent)
-   🔮 Lower prediction - original discussion
+/** The time a scenario takes place at. */
+export function scenarioNow(scenario: Scenario): Date {
+  return new Date(scenario.now ?? playgroundNow)
+}
 
-**4. Middleware Refactor** (ARCHIVED) [Score: 0.45]
-   📅 2 days ago • Type: Refactor
-   🔗 Caused by: JWT Implementation
-   🔮 Lower priority - archived tier
+/** Everything stored in the engine when a scenario starts. */
+export function scenarioSeeds(scenario: Scenario): ContextSeed[] {
+  const corpus = scenario.corpus ? generateCorpus(scenario.corpus, scenarioNow(scenario)) : []
+  return [...playgroundContexts, ...corpus, ...(scenario.contexts ?? [])]
+}
 
----
+// What a reply template reads from a result message: the computed result, or
+// recorded output parsed as JSON when it is JSON
+function templateResult(message: ToolResultMessage | RecordedToolResultMessage): unknown {
+  if (!message.recordedResult) return message.toolResult
+  try {
+    return JSON.parse(message.recordedResult.text)
+  } catch {
+    return message.recordedResult.text
+  }
+}
 
-**3-Layer Analysis:**
+/**
+ * Fill in the templates in a scenario's assistant replies from the tool
+ * results before each one (see `reply-templates`). A template that does not
+ * render is left as written, or reported to `onError` with its step.
+ */
+export function renderReplies(
+  scenario: Scenario,
+  messages: Message[],
+  format: TemplateFormat = {},
+  onError?: (error: TemplateError, step: number) => void
+): Message[] {
+  const data: TemplateData = { now: scenarioNow(scenario), results: [] }
+
+  return messages.map((message, step): Message => {
+    if (message.role === 'tool') {
+      if (!message.toolParams) data.results.push(templateResult(message))
+      return message
+    }
+    if (message.role !== 'assistant' || !message.content.includes('{{')) return message
+    try {
+      return { ...message, content: renderTemplate(message.content, data, format) }
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error
+      onError?.(error, step)
+      return message
+    }
+  })
+}
 
-🔍 **Layer 1 (Causality):** Clear chain from discussion → research → implementation → refactor
-💾 **Layer 2 (Memory):** 3 in hot tiers (ACTIVE/RECENT), 1 archived
-🔮 **Layer 3 (Propagation):** #1 predicted as highest value for future work
+/**
+ * Replay a scenario's tool calls against a fresh engine so each result
+ * message carries the output of the invocation before it, and render the
+ * replies' templates from those results. A branching scenario is replayed
+ * along `path`.
+ */
+export function replayScenario(
+  scenario: Scenario,
+  path: number[] = [],
+  format: TemplateFormat = {},
+  onError?: (error: TemplateError, step: number) => void
+): Message[] {
+  const engine = WakeEngine.fromSeeds(scenarioSeeds(scenario), scenarioNow(scenario))
+  let lastInvocation: ToolInvocationMessage | null = null
+
+  const messages = resolveScenarioPath(scenario, path).messages.map((message): Message => {
+    if (message.role !== 'tool' || message.recordedResult) return message
+    if (message.toolName) {
+      lastInvocation = message
+      return message
+    }
+    return lastInvocation
+      ? runToolInvocation(engine, lastInvocation, message.content)
+      : { role: 'system', content: message.content }
+  })
+  return renderReplies(scenario, messages, format, onError)
+}
 
-**Insight:** Your authentication work shows a logical progression. The JWT implementation (#1) is your most valuable context right now.`
-      }
-    ]
+/** Reply templates that do not render on some path through the scenario. */
+export function scenarioTemplateErrors(scenario: Scenario): string[] {
+  const errors = new Set<string>()
+  for (const path of scenarioPaths(scenario)) {
+    replayScenario(scenario, path, { locale: 'en-US', timeZone: 'UTC' }, (error, step) => {
+      errors.add(`${path.length ? `path ${path.join(',')}, ` : ''}step ${step + 1}: ${error.message}`)
+    })
   }
-]
+  return [...errors]
+}
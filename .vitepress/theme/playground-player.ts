@@ -0,0 +1,170 @@
+/**
+ * The scenario player shared by the playground and its embeds: which step
+ * shows, the follow-ups picked at branch points, stepping, autoplay and
+ * scrolling the newest message into view.
+ *
+ * The component keeps what the scenario's messages are, so the playground
+ * can swap in live results, and renders them up to `currentMessageIndex`.
+ */
+
+import { computed, nextTick, onBeforeUnmount, ref, watch, type Ref } from 'vue'
+import { resolveScenarioPath, type Scenario } from './playground-data'
+
+const STEP_TRANSITION_MS = 300
+// Reading time between autoplayed steps at 1×
+const AUTOPLAY_PAUSE_MS = 1800
+
+export function usePlayer(scenario: Ref<Scenario | null>, speed: Ref<number> = ref(1)) {
+  // The follow-up picked at each branch point of a branching scenario
+  const choicePath = ref<number[]>([])
+  const currentMessageIndex = ref(0)
+  const expandedMessages = ref<number[]>([])
+  const isPlaying = ref(false)
+  const isAutoplaying = ref(false)
+  const messagesContainer = ref<HTMLElement | null>(null)
+
+  let stepTimer: ReturnType<typeof setTimeout> | undefined
+  let autoplayTimer: ReturnType<typeof setTimeout> | undefined
+
+  // The scripted messages along the choices made so far
+  const scenarioPath = computed(() => {
+    return scenario.value ? resolveScenarioPath(scenario.value, choicePath.value) : null
+  })
+
+  const lastStep = computed(() => {
+    return scenarioPath.value ? scenarioPath.value.messages.length - 1 : 0
+  })
+
+  const canAdvance = computed(() => {
+    return !!scenarioPath.value && currentMessageIndex.value < lastStep.value
+  })
+
+  const canRestart = computed(() => currentMessageIndex.value > 0)
+
+  // The follow-ups offered after the current step, if it ends a branch point,
+  // and which of them was picked; stepping back to a branch point offers its
+  // choices again
+  const branchPoint = computed(() => {
+    const resolved = scenarioPath.value
+    if (!scenario.value || !resolved) return null
+
+    const depth = resolved.choiceSteps.indexOf(currentMessageIndex.value + 1)
+    if (depth >= 0) {
+      const { choices } = resolveScenarioPath(scenario.value, resolved.path.slice(0, depth))
+      return { depth, choices, chosen: resolved.path[depth] }
+    }
+    if (currentMessageIndex.value === lastStep.value && resolved.choices.length) {
+      return { depth: resolved.path.length, choices: resolved.choices, chosen: null }
+    }
+    return null
+  })
+
+  // Playing on past a branch point needs a follow-up picked first
+  const awaitingChoice = computed(() => !canAdvance.value && !!branchPoint.value)
+
+  // The choices that lead to a step; steps before a branch point need none
+  function choicesBefore(index: number): number[] {
+    const choices = scenarioPath.value?.choiceSteps.filter(start => start <= index).length ?? 0
+    return choicePath.value.slice(0, choices)
+  }
+
+  function nextMessage() {
+    if (!canAdvance.value || isPlaying.value) return
+    isPlaying.value = true
+    stepTimer = setTimeout(() => {
+      currentMessageIndex.value++
+      isPlaying.value = false
+    }, STEP_TRANSITION_MS / speed.value)
+  }
+
+  /** Take a follow-up at the current branch point and play its first step. */
+  function choose(index: number) {
+    const point = branchPoint.value
+    if (!point || !point.choices[index] || isPlaying.value) return
+    if (index !== point.chosen) choicePath.value = [...choicePath.value.slice(0, point.depth), index]
+    nextMessage()
+  }
+
+  function previousMessage() {
+    goToStep(currentMessageIndex.value - 1)
+  }
+
+  /** Jump straight to a step, cancelling any step in progress. */
+  function goToStep(step: number) {
+    clearTimeout(stepTimer)
+    isPlaying.value = false
+    currentMessageIndex.value = Math.min(Math.max(step, 0), lastStep.value)
+    expandedMessages.value = expandedMessages.value.filter(index => index <= currentMessageIndex.value)
+  }
+
+  function restart() {
+    isAutoplaying.value = false
+    goToStep(0)
+    choicePath.value = []
+    expandedMessages.value = []
+  }
+
+  function toggleAutoplay() {
+    if (isAutoplaying.value) {
+      isAutoplaying.value = false
+      return
+    }
+    if (awaitingChoice.value) return
+    if (!canAdvance.value) goToStep(0)
+    isAutoplaying.value = true
+    nextMessage()
+  }
+
+  function setExpanded(index: number, open: boolean) {
+    const others = expandedMessages.value.filter(other => other !== index)
+    expandedMessages.value = open ? [...others, index] : others
+  }
+
+  // Each step schedules the next while autoplay is on; stops at the last step
+  // or at a branch point with no follow-up picked yet
+  watch([isAutoplaying, currentMessageIndex, speed], () => {
+    clearTimeout(autoplayTimer)
+    if (!isAutoplaying.value) return
+    if (!canAdvance.value) {
+      isAutoplaying.value = false
+      return
+    }
+    autoplayTimer = setTimeout(nextMessage, AUTOPLAY_PAUSE_MS / speed.value)
+  })
+
+  watch(currentMessageIndex, async () => {
+    await nextTick()
+    const container = messagesContainer.value
+    if (!container) return
+    const reduceMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches
+    container.scrollTo({ top: container.scrollHeight, behavior: reduceMotion ? 'auto' : 'smooth' })
+  })
+
+  onBeforeUnmount(() => {
+    clearTimeout(stepTimer)
+    clearTimeout(autoplayTimer)
+  })
+
+  return {
+    choicePath,
+    currentMessageIndex,
+    expandedMessages,
+    isPlaying,
+    isAutoplaying,
+    messagesContainer,
+    scenarioPath,
+    lastStep,
+    canAdvance,
+    canRestart,
+    branchPoint,
+    awaitingChoice,
+    choicesBefore,
+    nextMessage,
+    choose,
+    previousMessage,
+    goToStep,
+    restart,
+    toggleAutoplay,
+    setExpanded
+  }
+}
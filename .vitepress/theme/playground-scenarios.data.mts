@@ -0,0 +1,52 @@
+/// <reference types="node" />
+/**
+ * Build-time loader for the playground scenarios in `playground/*.yaml`.
+ *
+ * Each file is parsed and validated with `scenarioFromDocument`, and its
+ * reply templates are rendered along every path; a YAML syntax error, an
+ * invalid scenario or a template that does not render fails the build with
+ * the file name and every problem found in it. Scenarios are ordered by
+ * their `order` field, then by file name.
+ */
+
+import { readFileSync } from 'node:fs'
+import { basename, relative } from 'node:path'
+import { defineLoader } from 'vitepress'
+import { parseDocument } from 'yaml'
+import { ScenarioFormatError, scenarioFromDocument } from './scenario-format'
+import { scenarioTemplateErrors, type Scenario } from './playground-data'
+import { toolDefinitions, validateToolParams } from './tool-schemas'
+
+declare const data: Scenario[]
+export { data }
+
+// Scenario files, imports and sandbox calls share this validator. Keys that
+// every object inherits once made it throw instead of reporting them, which
+// took the sandbox down with a 500.
+const statsTool = toolDefinitions.find(tool => tool.name === 'get_memory_stats')!
+const inheritedKeys = JSON.parse('{"project": "x", "constructor": 1, "toString": 1, "__proto__": 1}')
+const inheritedKeyProblems = validateToolParams(statsTool.inputSchema, inheritedKeys)
+if (inheritedKeyProblems.length !== 3 || !inheritedKeyProblems.every(problem => problem.endsWith('is not a known parameter'))) {
+  throw new Error(`Tool params with inherited keys should be rejected, not: ${inheritedKeyProblems.join('; ')}`)
+}
+
+export default defineLoader({
+  watch: ['../../playground/*.yaml'],
+  load(files: string[]): Scenario[] {
+    const scenarios = files.map(file => {
+      const source = relative(process.cwd(), file)
+      const document = parseDocument(readFileSync(file, 'utf-8'), { prettyErrors: true })
+      if (document.errors.length) {
+        throw new ScenarioFormatError(source, document.errors.map(error => error.message))
+      }
+      const scenario = scenarioFromDocument(basename(file, '.yaml'), document.toJS(), source)
+      const templateErrors = scenarioTemplateErrors(scenario)
+      if (templateErrors.length) throw new ScenarioFormatError(source, templateErrors)
+      return scenario
+    })
+
+    return scenarios
+      .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || a.id.localeCompare(b.id))
+      .map(({ order, ...scenario }) => scenario)
+  }
+})
@@ -0,0 +1,259 @@
+/**
+ * Playground state that survives a reload: which scenario and step are
+ * showing, which tool results are expanded, and the settings of the
+ * scenario's interactive panel. Stored in the query string so links to a
+ * specific step can be shared, e.g. `/playground?scenario=causal-chain&step=4`,
+ * or to a step down one branch of a scenario, e.g. `&path=1&step=9`.
+ * Results picked for comparison are kept too, even across scenarios.
+ */
+
+import { DEFAULT_PREDICTION_CONFIG, type MemoryTier, type ScoreBreakdown } from './wake-engine'
+
+/** A simulated `load_context` access, `hours` after the playground's now. */
+export interface TimelineAccess {
+  id: string
+  hours: number
+}
+
+export interface TimelineSettings {
+  /** Slider position, 0 to `TIMELINE_SLIDER_STEPS`. */
+  position: number
+  accesses: TimelineAccess[]
+  /** The prune dry-run's `limit`; `null` prunes every expired context. */
+  pruneLimit: number | null
+}
+
+export interface TunerSettings {
+  weights: ScoreBreakdown
+  tierAdjustments: Record<MemoryTier, number>
+  minScore: number
+  limit: number
+}
+
+/** The Import tab's form, kept while an imported scenario plays. */
+export interface ImportSettings {
+  source: string
+  title: string
+  /** Replace context IDs with placeholders. */
+  ids: boolean
+  /** Comma-separated keys to redact. */
+  fields: string
+  /** One `pattern => replacement` per line. */
+  replacements: string
+}
+
+/** Live mode's server and the IDs its scenario calls use instead of the demo's. */
+export interface LiveSettings {
+  url: string
+  /** Replaces `project` in scenario tool calls; blank keeps the scenario's. */
+  project: string
+  /** Replaces `snapshotId` in scenario tool calls; blank keeps the scenario's. */
+  snapshotId: string
+}
+
+export type PlaygroundTab = 'scenarios' | 'console' | 'import'
+
+/** A tool result in a scenario: the zero-based step showing it, along `path`. */
+export interface ResultRef {
+  scenarioId: string
+  path: number[]
+  step: number
+}
+
+export interface PlaygroundState {
+  tab: PlaygroundTab
+  scenarioId: string | null
+  /** The follow-up picked at each branch point so far, as zero-based indexes. */
+  path: number[]
+  /** Zero-based index of the last visible message, counted along `path`. */
+  step: number
+  /** Indexes of messages whose details are expanded. */
+  expanded: number[]
+  timeline: TimelineSettings
+  tuner: TunerSettings
+  /** Results picked for the compare view, before then after; at most two. */
+  compare: ResultRef[]
+}
+
+export const TIMELINE_SLIDER_STEPS = 1000
+
+const TABS: PlaygroundTab[] = ['scenarios', 'console', 'import']
+const TIERS: MemoryTier[] = ['ACTIVE', 'RECENT', 'ARCHIVED', 'EXPIRED']
+const FACTORS: (keyof ScoreBreakdown)[] = ['temporal', 'causal', 'frequency']
+
+export function defaultTimelineSettings(): TimelineSettings {
+  return { position: 0, accesses: [], pruneLimit: null }
+}
+
+/** The scenario's get_high_value_contexts call with the documented algorithm. */
+export function defaultTunerSettings(): TunerSettings {
+  return {
+    weights: { ...DEFAULT_PREDICTION_CONFIG.weights },
+    tierAdjustments: { ...DEFAULT_PREDICTION_CONFIG.tierAdjustments },
+    minScore: 0.6,
+    limit: 5
+  }
+}
+
+export function defaultImportSettings(): ImportSettings {
+  return { source: '', title: '', ids: true, fields: '', replacements: '' }
+}
+
+export function defaultLiveSettings(): LiveSettings {
+  return { url: 'http://localhost:8787/mcp', project: '', snapshotId: '' }
+}
+
+export function defaultPlaygroundState(): PlaygroundState {
+  return {
+    tab: 'scenarios',
+    scenarioId: null,
+    path: [],
+    step: 0,
+    expanded: [],
+    timeline: defaultTimelineSettings(),
+    tuner: defaultTunerSettings(),
+    compare: []
+  }
+}
+
+// ============================================================================
+// Search anchors
+// ============================================================================
+
+// Local search links to `page#anchor`, so scenario steps are indexed under
+// anchors like `#playground-causal-chain-step-4` rather than query strings.
+// Steps after a branch point carry the choices leading to them, as in
+// `#playground-save-and-reconstruct-path-1-step-9`.
+const SEARCH_ANCHOR = /^#?playground-(.+?)(?:-path-(\d+(?:-\d+)*))?(?:-step-(\d+))?$/
+
+/** Anchor for a scenario, or one of its steps (zero-based) along `path`, in the search index. */
+export function scenarioSearchAnchor(scenarioId: string, step?: number, path: number[] = []): string {
+  if (step === undefined) return `playground-${scenarioId}`
+  const choices = path.length ? `-path-${path.join('-')}` : ''
+  return `playground-${scenarioId}${choices}-step-${step + 1}`
+}
+
+/** The scenario, path and zero-based step a search anchor points at, if it is one. */
+export function parseScenarioSearchAnchor(hash: string): { scenarioId: string; path: number[]; step: number } | null {
+  const match = SEARCH_ANCHOR.exec(hash)
+  if (!match) return null
+  return {
+    scenarioId: match[1],
+    path: match[2]?.split('-').map(Number) ?? [],
+    step: match[3] ? Math.max(0, Number(match[3]) - 1) : 0
+  }
+}
+
+// ============================================================================
+// Query string
+// ============================================================================
+
+function numberList(value: string | null, length: number): number[] | null {
+  const numbers = value?.split(',').map(Number) ?? []
+  return numbers.length === length && numbers.every(Number.isFinite) ? numbers : null
+}
+
+// `causal-chain:4`, or `save-and-reconstruct.2:12` for step 12 after choice 2
+const RESULT_REF = /^([\w-]+)((?:\.\d+)*):(\d+)$/
+
+// Steps count from 1 in the query string, as in `step`
+function resultRefParam(ref: ResultRef): string {
+  return `${[ref.scenarioId, ...ref.path].join('.')}:${ref.step + 1}`
+}
+
+function parseResultRef(value: string): ResultRef | null {
+  const match = RESULT_REF.exec(value)
+  if (!match || Number(match[3]) < 1) return null
+  return { scenarioId: match[1], path: match[2].split('.').filter(Boolean).map(Number), step: Number(match[3]) - 1 }
+}
+
+function numberParam(value: string | null, min: number, max: number): number | null {
+  const number = value === null ? NaN : Number(value)
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : null
+}
+
+/**
+ * Read playground state from a query string. Malformed or out-of-range
+ * values fall back to their defaults rather than failing the page.
+ */
+export function parsePlaygroundState(search: string): PlaygroundState {
+  const params = new URLSearchParams(search)
+  const state = defaultPlaygroundState()
+
+  state.tab = TABS.find(tab => tab === params.get('tab')) ?? state.tab
+  state.scenarioId = params.get('scenario')
+  const path = params.get('path')?.split(',').filter(Boolean).map(Number) ?? []
+  state.path = path.every(index => Number.isInteger(index) && index >= 0) ? path : []
+  state.step = Math.max(0, Math.floor(numberParam(params.get('step'), 1, Infinity) ?? 1) - 1)
+  state.expanded = (params.get('open')?.split(',') ?? [])
+    .map(Number)
+    .filter(index => Number.isInteger(index) && index >= 0)
+
+  state.timeline.position = numberParam(params.get('clock'), 0, TIMELINE_SLIDER_STEPS) ?? 0
+  state.timeline.accesses = (params.get('loads')?.split(',') ?? [])
+    .map(entry => {
+      const [id, hours] = entry.split('@')
+      return { id, hours: Number(hours) }
+    })
+    .filter(access => access.id && Number.isFinite(access.hours) && access.hours >= 0)
+  const pruneLimit = numberParam(params.get('prune'), 1, Infinity)
+  state.timeline.pruneLimit = pruneLimit === null ? null : Math.round(pruneLimit)
+
+  const weights = numberList(params.get('weights'), FACTORS.length)
+  if (weights) {
+    FACTORS.forEach((factor, index) => { state.tuner.weights[factor] = weights[index] })
+  }
+  const tiers = numberList(params.get('tiers'), TIERS.length)
+  if (tiers) {
+    TIERS.forEach((tier, index) => { state.tuner.tierAdjustments[tier] = tiers[index] })
+  }
+  state.tuner.minScore = numberParam(params.get('minScore'), 0, 1) ?? state.tuner.minScore
+  state.tuner.limit = Math.round(numberParam(params.get('limit'), 1, Infinity) ?? state.tuner.limit)
+
+  state.compare = (params.get('compare')?.split(',') ?? [])
+    .map(parseResultRef)
+    .filter((ref): ref is ResultRef => ref !== null)
+    .slice(0, 2)
+
+  return state
+}
+
+/** Write playground state as a query string, leaving out default values. */
+export function playgroundStateQuery(state: PlaygroundState): string {
+  const params = new URLSearchParams()
+  const defaults = defaultPlaygroundState()
+
+  if (state.scenarioId) {
+    params.set('scenario', state.scenarioId)
+    if (state.path.length) params.set('path', state.path.join(','))
+    if (state.step > 0) params.set('step', String(state.step + 1))
+    if (state.expanded.length) params.set('open', [...state.expanded].sort((a, b) => a - b).join(','))
+
+    const { timeline, tuner } = state
+    if (timeline.position > 0) params.set('clock', String(timeline.position))
+    if (timeline.accesses.length) {
+      params.set('loads', timeline.accesses.map(access => `${access.id}@${Number(access.hours.toFixed(2))}`).join(','))
+    }
+    if (timeline.pruneLimit !== null) params.set('prune', String(timeline.pruneLimit))
+
+    const weights = FACTORS.map(factor => tuner.weights[factor])
+    if (FACTORS.some(factor => tuner.weights[factor] !== defaults.tuner.weights[factor])) {
+      params.set('weights', weights.join(','))
+    }
+    const tiers = TIERS.map(tier => tuner.tierAdjustments[tier])
+    if (TIERS.some(tier => tuner.tierAdjustments[tier] !== defaults.tuner.tierAdjustments[tier])) {
+      params.set('tiers', tiers.join(','))
+    }
+    if (tuner.minScore !== defaults.tuner.minScore) params.set('minScore', String(tuner.minScore))
+    if (tuner.limit !== defaults.tuner.limit) params.set('limit', String(tuner.limit))
+  } else if (state.tab !== defaults.tab) {
+    params.set('tab', state.tab)
+  }
+  if (state.compare.length) params.set('compare', state.compare.map(resultRefParam).join(','))
+
+  // Commas, @ and : separate list items; leave them readable
+  const query = [...params]
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%2C/g, ',').replace(/%40/g, '@').replace(/%3A/g, ':')}`)
+    .join('&')
+  return query ? `?${query}` : ''
+}
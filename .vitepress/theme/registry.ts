@@ -0,0 +1,109 @@
+/**
+ * The documented MCP tools and API classes, in one place.
+ *
+ * The sidebar, the tools overview tables and the playground's tool console
+ * are generated from this registry, and the build fails when an entry has no
+ * page under `tools/` or `api/`, or a page there has no entry. Server tools
+ * without a page yet are only listed in the overview. Adding a tool
+ * means adding its schema in tool-schemas.ts, its entry here and its page.
+ */
+
+import { toolDefinitions, type ToolDefinition } from './tool-schemas'
+import type { ToolName } from './tool-types'
+
+export type Layer = 'core' | 'causality' | 'memory' | 'propagation'
+
+export const LAYERS: Record<Layer, { title: string }> = {
+  core: { title: 'Core Context Management' },
+  causality: { title: 'Layer 1: Causality (Past - WHY)' },
+  memory: { title: 'Layer 2: Memory (Present - HOW)' },
+  propagation: { title: 'Layer 3: Propagation (Future - WHAT)' }
+}
+
+interface RegistryEntry {
+  name: string
+  /** Page file name, without `.md`. */
+  slug: string
+  layer: Layer
+  /** One line for tables and menus. */
+  summary: string
+}
+
+export interface ToolEntry extends RegistryEntry, ToolDefinition {
+  name: ToolName
+  /** The layers a core tool works with, for the overview's Layer column. */
+  layers?: string
+}
+
+/** A server tool without a schema or page here yet. */
+export type UndocumentedTool = Omit<RegistryEntry, 'slug'>
+
+export interface ApiClassEntry extends RegistryEntry {
+  kind: 'service' | 'entity'
+}
+
+// Keyed by tool name so a tool with a schema cannot be left out
+const TOOL_DOCS: Record<ToolName, Pick<ToolEntry, 'layer' | 'layers' | 'summary'>> = {
+  save_context: { layer: 'core', layers: 'All 3', summary: 'Save conversation context with AI enhancement' },
+  load_context: { layer: 'core', layers: 'Layer 2', summary: 'Retrieve contexts for a project' },
+  search_context: { layer: 'core', layers: 'Layer 2', summary: 'Search contexts by keywords' },
+  reconstruct_reasoning: { layer: 'causality', summary: 'Explain WHY a context was created' },
+  build_causal_chain: { layer: 'causality', summary: 'Trace decision history backwards' },
+  get_memory_stats: { layer: 'memory', summary: 'View memory tier distribution' },
+  update_predictions: { layer: 'propagation', summary: 'Refresh prediction scores' },
+  get_high_value_contexts: { layer: 'propagation', summary: 'Retrieve likely-needed contexts' }
+}
+
+/** Pages are named after the tool, e.g. `tools/save-context.md`. */
+export const tools: ToolEntry[] = toolDefinitions.map(definition => ({
+  ...definition,
+  slug: definition.name.replace(/_/g, '-'),
+  ...TOOL_DOCS[definition.name]
+}))
+
+// Listed in the overview, unlinked, until they get a schema and a page
+export const undocumentedTools: UndocumentedTool[] = [
+  { name: 'get_causality_stats', layer: 'causality', summary: 'Analytics on causal relationships' },
+  { name: 'recalculate_memory_tiers', layer: 'memory', summary: 'Update tier classifications' },
+  { name: 'prune_expired_contexts', layer: 'memory', summary: 'Clean up old contexts' },
+  { name: 'get_propagation_stats', layer: 'propagation', summary: 'Analytics on predictions' }
+]
+
+export const apiClasses: ApiClassEntry[] = [
+  {
+    name: 'ContextSnapshot',
+    slug: 'context-snapshot',
+    layer: 'core',
+    kind: 'entity',
+    summary: 'Represents a preserved conversation context'
+  },
+  {
+    name: 'CausalityService',
+    slug: 'causality-service',
+    layer: 'causality',
+    kind: 'service',
+    summary: 'Layer 1 - Track decision causality (Past)'
+  },
+  {
+    name: 'MemoryManagerService',
+    slug: 'memory-manager-service',
+    layer: 'memory',
+    kind: 'service',
+    summary: 'Layer 2 - Manage context lifecycle (Present)'
+  },
+  {
+    name: 'PropagationService',
+    slug: 'propagation-service',
+    layer: 'propagation',
+    kind: 'service',
+    summary: 'Layer 3 - Predict future relevance (Future)'
+  }
+]
+
+export function toolLink(tool: ToolEntry): string {
+  return `/tools/${tool.slug}`
+}
+
+export function apiClassLink(apiClass: ApiClassEntry): string {
+  return `/api/${apiClass.slug}`
+}
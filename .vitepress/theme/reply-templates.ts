@@ -0,0 +1,214 @@
+/**
+ * Templates in scenario replies, so times, tiers and counts come from the
+ * computed tool results instead of being typed in by hand.
+ *
+ * `{{ result.contexts[0].timestamp | calendar }}` formats a value from the
+ * latest tool result before the reply; `results[1]` is the second result in
+ * the scenario, and `now` is the scenario's reference time. Numbers can be
+ * combined with `+ - * /`, e.g. `{{ result.expired / result.total | percent }}`.
+ * Dates are formatted for the reader's locale and time zone unless a
+ * `TemplateFormat` says otherwise.
+ */
+
+export interface TemplateFormat {
+  /** BCP 47 locale; the reader's by default. */
+  locale?: string
+  /** IANA time zone; the reader's by default. */
+  timeZone?: string
+}
+
+export interface TemplateData {
+  /** The scenario's reference "now" that relative times count from. */
+  now: Date
+  /** Every tool result so far, oldest first. */
+  results: unknown[]
+}
+
+type Filter = (value: unknown, context: FilterContext, args: string[]) => string
+
+interface FilterContext {
+  now: Date
+  format: TemplateFormat
+  resolve: (expression: string) => unknown
+}
+
+const TEMPLATE = /\{\{([^{}]+)\}\}/g
+const PATH = /^(now|result|results)((?:\.[A-Za-z_$][\w$]*|\[\d+\])*)$/
+const OPERATORS = /\s+([-+*/])\s+/
+
+const TIER_ICONS: Record<string, string> = {
+  ACTIVE: '🔥',
+  RECENT: '⚡',
+  ARCHIVED: '📦',
+  EXPIRED: '❄️'
+}
+
+const HOUR_MS = 1000 * 60 * 60
+
+export class TemplateError extends Error {
+  constructor(readonly template: string, message: string) {
+    super(`${template}: ${message}`)
+    this.name = 'TemplateError'
+  }
+}
+
+function toDate(value: unknown): Date {
+  const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) throw new Error(`expected a date, got ${JSON.stringify(value)}`)
+  return date
+}
+
+function toNumber(value: unknown): number {
+  if (Array.isArray(value)) return value.length
+  if (typeof value !== 'number') throw new Error(`expected a number, got ${JSON.stringify(value)}`)
+  return value
+}
+
+function dateFormat(format: TemplateFormat, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat(format.locale, { timeZone: format.timeZone, ...options })
+}
+
+/** `Oct 17, 2024, 3:30 PM`, in the reader's locale and time zone unless `format` says otherwise. */
+export function formatDateTime(value: unknown, format: TemplateFormat = {}): string {
+  return dateFormat(format, { dateStyle: 'medium', timeStyle: 'short' }).format(toDate(value))
+}
+
+/** Whole calendar days from `from` to `to` in the format's time zone. */
+function calendarDays(from: Date, to: Date, format: TemplateFormat): number {
+  const day = (date: Date) => {
+    const parts = dateFormat(format, { year: 'numeric', month: 'numeric', day: 'numeric' }).formatToParts(date)
+    const part = (type: string) => Number(parts.find(entry => entry.type === type)!.value)
+    return Date.UTC(part('year'), part('month') - 1, part('day')) / (24 * HOUR_MS)
+  }
+  return day(to) - day(from)
+}
+
+/** A span of time in its largest sensible unit, e.g. `[2.5, 'hour']`. */
+function span(ms: number): [number, Intl.RelativeTimeFormatUnit] {
+  const hours = Math.abs(ms) / HOUR_MS
+  if (hours < 1) return [Math.round(hours * 60), 'minute']
+  if (hours < 10) return [Number(hours.toFixed(1)), 'hour']
+  if (hours < 48) return [Math.round(hours), 'hour']
+  if (hours < 24 * 60) return [Math.round(hours / 24), 'day']
+  if (hours < 24 * 365) return [Math.round(hours / (24 * 30)), 'month']
+  return [Math.round(hours / (24 * 365)), 'year']
+}
+
+const FILTERS: Record<string, Filter> = {
+  /** `3 months ago`, counted from the scenario's now. */
+  relative: (value, { now, format }) => {
+    const ms = toDate(value).getTime() - now.getTime()
+    const [amount, unit] = span(ms)
+    return new Intl.RelativeTimeFormat(format.locale, { numeric: 'auto' }).format(Math.sign(ms) * amount, unit)
+  },
+  /** The time between two dates, e.g. `2.5 hours` for `{{ a | duration:b }}`. */
+  duration: (value, { format, resolve }, [other]) => {
+    if (!other) throw new Error('duration needs a second date, e.g. duration:result.snapshot.timestamp')
+    const [amount, unit] = span(toDate(resolve(other)).getTime() - toDate(value).getTime())
+    return new Intl.NumberFormat(format.locale, { style: 'unit', unit, unitDisplay: 'long' }).format(amount)
+  },
+  /** `3:30 PM` */
+  time: (value, { format }) => dateFormat(format, { timeStyle: 'short' }).format(toDate(value)),
+  /** `Oct 17, 2024` */
+  date: (value, { format }) => dateFormat(format, { dateStyle: 'medium' }).format(toDate(value)),
+  /** `October 17, 2024 at 5:00 PM` */
+  datetime: (value, { format }) => dateFormat(format, { dateStyle: 'long', timeStyle: 'short' }).format(toDate(value)),
+  /** `today, 3:30 PM` near the scenario's now, otherwise the date and time. */
+  calendar: (value, { now, format }) => {
+    const date = toDate(value)
+    const days = calendarDays(now, date, format)
+    const time = dateFormat(format, { timeStyle: 'short' }).format(date)
+    if (Math.abs(days) > 1) return formatDateTime(date, format)
+    return `${new Intl.RelativeTimeFormat(format.locale, { numeric: 'auto' }).format(days, 'day')}, ${time}`
+  },
+  /** `🔥 ACTIVE` */
+  tier: value => {
+    if (typeof value !== 'string' || !TIER_ICONS[value]) throw new Error(`expected a memory tier, got ${JSON.stringify(value)}`)
+    return `${TIER_ICONS[value]} ${value}`
+  },
+  /** A number, or a list's length, e.g. `1,024`. */
+  number: (value, { format }) => new Intl.NumberFormat(format.locale).format(toNumber(value)),
+  /** `0.83` → `83%` */
+  percent: (value, { format }) =>
+    new Intl.NumberFormat(format.locale, { style: 'percent', maximumFractionDigits: 0 }).format(toNumber(value)),
+  /** `{{ result.expired | atLeast:1:⚠️ Prune soon:✅ Nothing to prune }}`: the first text at or above the limit, else the second. */
+  atLeast: (value, _context, [limit, text, otherwise = '']) => {
+    if (!limit || Number.isNaN(Number(limit)) || text === undefined) {
+      throw new Error('atLeast needs a limit and a text, e.g. atLeast:1:some:none')
+    }
+    return toNumber(value) >= Number(limit) ? text : otherwise
+  },
+  /** `{{ result.total | plural:context }}` → `12 contexts`; irregular plurals as `plural:entry:entries`. */
+  plural: (value, { format }, [singular, plural = `${singular}s`]) => {
+    if (!singular) throw new Error('plural needs a word, e.g. plural:context')
+    const count = toNumber(value)
+    const word = new Intl.PluralRules(format.locale).select(count) === 'one' ? singular : plural
+    return `${new Intl.NumberFormat(format.locale).format(count)} ${word}`
+  }
+}
+
+function resolvePath(path: string, data: TemplateData): unknown {
+  const match = PATH.exec(path)
+  if (!match) throw new Error(`${path} is not a value: start from now, result or results[N]`)
+
+  let value: unknown = match[1] === 'now' ? data.now : match[1] === 'result' ? data.results[data.results.length - 1] : data.results
+  for (const [, key, index] of match[2].matchAll(/\.([\w$]+)|\[(\d+)\]/g)) {
+    value = (value as Record<string, unknown> | undefined)?.[key ?? Number(index)]
+  }
+  if (value === undefined || value === null) throw new Error(`${path} has no value`)
+  return value
+}
+
+// `*` and `/` before `+` and `-`, as in arithmetic: `a + b / c` is `a + (b / c)`
+function evaluate(expression: string, data: TemplateData): unknown {
+  const [first, ...rest] = expression.trim().split(OPERATORS)
+  const operand = (text: string) => /^\d+(\.\d+)?$/.test(text) ? Number(text) : resolvePath(text, data)
+  if (!rest.length) return operand(first)
+
+  // Each product or quotient becomes one term, then the terms are summed
+  const terms = [toNumber(operand(first))]
+  const signs: string[] = []
+  for (let index = 0; index < rest.length; index += 2) {
+    const operator = rest[index]
+    const text = rest[index + 1]
+    const right = toNumber(operand(text))
+    if (operator === '/' && right === 0) throw new Error(`cannot divide by ${text}, which is 0`)
+    switch (operator) {
+      case '*': terms.push(terms.pop()! * right); break
+      case '/': terms.push(terms.pop()! / right); break
+      default: signs.push(operator); terms.push(right)
+    }
+  }
+  return terms.reduce((sum, term, index) => signs[index - 1] === '-' ? sum - term : sum + term)
+}
+
+function renderExpression(source: string, data: TemplateData, format: TemplateFormat): string {
+  const [expression, ...filters] = source.split('|')
+  const context: FilterContext = { now: data.now, format, resolve: path => evaluate(path, data) }
+  let value = evaluate(expression, data)
+
+  if (!filters.length) {
+    if (typeof value === 'object') throw new Error(`${expression.trim()} is not text; add a filter or pick a field`)
+    return String(value)
+  }
+  for (const filter of filters) {
+    const [name, ...args] = filter.trim().split(':')
+    if (!Object.hasOwn(FILTERS, name)) throw new Error(`unknown filter ${name}; use one of: ${Object.keys(FILTERS).join(', ')}`)
+    value = FILTERS[name](value, context, args)
+  }
+  return String(value)
+}
+
+/**
+ * Fill in every `{{ … }}` in a reply. Throws a `TemplateError` for the
+ * first one that cannot be rendered.
+ */
+export function renderTemplate(text: string, data: TemplateData, format: TemplateFormat = {}): string {
+  return text.replace(TEMPLATE, (template, source: string) => {
+    try {
+      return renderExpression(source, data, format)
+    } catch (error) {
+      throw new TemplateError(template, (error as Error).message)
+    }
+  })
+}
@@ -0,0 +1,121 @@
+/**
+ * Structural comparison of two tool results, for the playground's compare
+ * view.
+ *
+ * Contexts are matched by ID wherever they appear in a result, so the
+ * snapshot `save_context` returns can be compared with the same context in
+ * a later `get_high_value_contexts` ranking. Everything outside contexts,
+ * such as `get_memory_stats` tier counts, is compared field by field.
+ */
+
+export type Scalar = string | number | boolean | null
+
+export interface FieldChange {
+  /** Dotted path outside contexts, or the field name within a context. */
+  field: string
+  before: Scalar
+  after: Scalar
+}
+
+export interface ComparedContext {
+  id: string
+  summary: string
+  /** The context's fields, flattened to their last key. */
+  fields: Record<string, Scalar>
+}
+
+export interface ContextChange extends ComparedContext {
+  /** Fields both results report for the context whose values differ. */
+  changes: FieldChange[]
+}
+
+export interface ResultDiff {
+  fields: FieldChange[]
+  changed: ContextChange[]
+  /** Contexts only the second result has. */
+  added: ComparedContext[]
+  /** Contexts only the first result has. */
+  removed: ComparedContext[]
+  /** Contexts in both results with no differing field. */
+  unchanged: number
+}
+
+interface Flattened {
+  fields: Map<string, Scalar>
+  contexts: Map<string, ComparedContext>
+}
+
+function isContext(value: object): value is { id: string; summary: string } {
+  return typeof (value as Record<string, unknown>).id === 'string' &&
+    typeof (value as Record<string, unknown>).summary === 'string'
+}
+
+// A list of plain values compares as one value, e.g. `propagationReason`
+function scalarList(value: unknown[]): Scalar | undefined {
+  return value.every(item => item === null || typeof item !== 'object') ? value.join(', ') : undefined
+}
+
+function flatten(value: unknown, path: string, into: Flattened, context: ComparedContext | null): void {
+  if (value === null || typeof value !== 'object') {
+    if (value === undefined) return
+    if (context) context.fields[path.split('.').pop()!] = value as Scalar
+    else into.fields.set(path, value as Scalar)
+    return
+  }
+
+  if (Array.isArray(value)) {
+    const joined = scalarList(value)
+    if (joined !== undefined) flatten(joined, path, into, context)
+    else value.forEach((item, index) => flatten(item, `${path}[${index}]`, into, context))
+    return
+  }
+
+  // A context inside another (a chain's rootCause, a snapshot's causedBy) is
+  // compared as itself; the same ID seen twice in a result is merged
+  let owner = context
+  if (isContext(value)) {
+    owner = into.contexts.get(value.id) ?? { id: value.id, summary: value.summary, fields: {} }
+    into.contexts.set(value.id, owner)
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (owner !== context && (key === 'id' || key === 'summary')) continue
+    flatten(child, path ? `${path}.${key}` : key, into, owner)
+  }
+}
+
+function flattenResult(result: unknown): Flattened {
+  const flattened: Flattened = { fields: new Map(), contexts: new Map() }
+  flatten(result, '', flattened, null)
+  return flattened
+}
+
+/**
+ * Compare two tool results. Fields only one of them reports, as between
+ * results of different tools, are not counted as changes.
+ */
+export function diffResults(before: unknown, after: unknown): ResultDiff {
+  const a = flattenResult(before)
+  const b = flattenResult(after)
+
+  const fields: FieldChange[] = []
+  for (const [field, value] of a.fields) {
+    if (b.fields.has(field) && b.fields.get(field) !== value) fields.push({ field, before: value, after: b.fields.get(field)! })
+  }
+
+  const diff: ResultDiff = { fields, changed: [], added: [], removed: [], unchanged: 0 }
+  for (const [id, context] of a.contexts) {
+    const other = b.contexts.get(id)
+    if (!other) {
+      diff.removed.push(context)
+      continue
+    }
+    const changes = Object.entries(context.fields)
+      .filter(([field, value]) => field in other.fields && other.fields[field] !== value)
+      .map(([field, value]) => ({ field, before: value, after: other.fields[field] }))
+    if (changes.length) diff.changed.push({ ...other, changes })
+    else diff.unchanged++
+  }
+  diff.added = [...b.contexts.values()].filter(context => !a.contexts.has(context.id))
+
+  return diff
+}
@@ -0,0 +1,85 @@
+/**
+ * How the playground draws tool results.
+ *
+ * `resultView` picks the renderer for a computed result; results without
+ * one, and tool errors, are only shown as raw JSON. The helpers below are
+ * shared by the `Result*` components.
+ */
+
+import { onMounted, ref } from 'vue'
+import type { ToolResultMessage } from './playground-data'
+import { formatDateTime, type TemplateFormat } from './reply-templates'
+import type {
+  CausalChainResult,
+  HighValueContextsResult,
+  MemoryStatsResult,
+  ReconstructReasoningResult,
+  SaveContextResult,
+  SearchContextResult
+} from './tool-types'
+import type { ScoreBreakdown } from './wake-engine'
+
+/** A computed result with a dedicated renderer, discriminated on `tool`. */
+export type ResultView =
+  | { tool: 'save_context'; result: SaveContextResult }
+  | { tool: 'search_context'; result: SearchContextResult }
+  | { tool: 'reconstruct_reasoning'; result: ReconstructReasoningResult }
+  | { tool: 'build_causal_chain'; result: CausalChainResult }
+  | { tool: 'get_memory_stats'; result: MemoryStatsResult }
+  | { tool: 'get_high_value_contexts'; result: HighValueContextsResult }
+
+export function resultView(message: ToolResultMessage): ResultView | null {
+  if ('error' in message.toolResult) return null
+
+  switch (message.toolName) {
+    case 'save_context':
+    case 'search_context':
+    case 'reconstruct_reasoning':
+    case 'build_causal_chain':
+    case 'get_memory_stats':
+    case 'get_high_value_contexts':
+      return { tool: message.toolName, result: message.toolResult } as ResultView
+    default:
+      return null
+  }
+}
+
+/** The prediction factor, or the tier boost, each propagation reason comes from. */
+export const REASON_FACTORS: Record<string, keyof ScoreBreakdown | 'tier'> = {
+  recently_accessed: 'temporal',
+  causal_chain_root: 'causal',
+  decision_node: 'causal',
+  high_access_frequency: 'frequency',
+  moderate_access_frequency: 'frequency',
+  active_memory_tier: 'tier'
+}
+
+/** `causal_chain_root` → `causal chain root` */
+export function reasonLabel(reason: string): string {
+  return reason.replace(/_/g, ' ')
+}
+
+// Pages are built in en-US and UTC, and hydrate showing the same text; the
+// reader's locale and time zone take over once a result view has mounted
+const BUILD_FORMAT: TemplateFormat = { locale: 'en-US', timeZone: 'UTC' }
+const mounted = ref(false)
+
+/** Call from a component that shows `formatTimestamp`s, to switch them to the reader's format. */
+export function useReaderTimestamps(): void {
+  onMounted(() => {
+    mounted.value = true
+  })
+}
+
+/** A time in a result, shown as the replies next to it show times. */
+export function formatTimestamp(iso: string): string {
+  return formatDateTime(iso, mounted.value ? {} : BUILD_FORMAT)
+}
+
+/** How long before `later` something happened, e.g. `2.5 hours earlier`. */
+export function formatElapsed(earlier: string, later: string): string {
+  const hours = (Date.parse(later) - Date.parse(earlier)) / (1000 * 60 * 60)
+  if (hours < 1) return `${Math.round(hours * 60)} minutes earlier`
+  if (hours < 48) return `${Number(hours.toFixed(1))} hours earlier`
+  return `${Math.round(hours / 24)} days earlier`
+}
@@ -0,0 +1,274 @@
+/**
+ * The authoring format for playground scenarios, and its validation.
+ *
+ * Scenarios live as one YAML file each in `playground/` (see its README).
+ * A file is a `ScenarioDocument`; `scenarioFromDocument` checks it and turns
+ * it into the `Scenario` the player runs. Validation collects every problem
+ * in a document so authors can fix them in one pass.
+ */
+
+import { ACTION_TYPES, type ContextSeed } from './wake-engine'
+import { validateCorpusOptions, type CorpusOptions } from './synthetic-corpus'
+import { toolDefinitions, validateToolParams } from './tool-schemas'
+import type { ToolName, ToolParams } from './tool-types'
+import type { Scenario, ScenarioChoice, ScenarioMessage, ToolInvocationMessage } from './playground-data'
+
+/** A tool call, discriminated on `tool` like `ToolInvocationMessage`. */
+export type ScenarioDocumentToolCall<N extends ToolName = ToolName> = N extends ToolName
+  ? { tool: N; params: ToolParams<N> }
+  : never
+
+export type ScenarioDocumentMessage =
+  | { user: string }
+  | { system: string }
+  | { assistant: string }
+  | ScenarioDocumentToolCall
+  /**
+   * Shows the result of the tool call before it; the value is its label.
+   * With `recorded`, shows that server output instead of computing one.
+   */
+  | { result: string | null; recorded?: string; isError?: boolean }
+
+/** A follow-up the reader can pick once the messages before it have played. */
+export interface ScenarioDocumentChoice {
+  label: string
+  messages: ScenarioDocumentMessage[]
+  choices?: ScenarioDocumentChoice[]
+}
+
+export interface ScenarioDocument {
+  title: string
+  icon: string
+  description: string
+  category: string
+  /** Position among the scenario cards; lower comes first. */
+  order?: number
+  panel?: Scenario['panel']
+  /** ISO time the scenario takes place at; relative times in replies count from it. */
+  now?: string
+  /** Contexts added to the playground store for this scenario. */
+  contexts?: ContextSeed[]
+  /** Synthetic contexts generated into the store; options left out take their defaults. */
+  corpus?: Partial<CorpusOptions>
+  messages: ScenarioDocumentMessage[]
+  /** Follow-ups offered after the last message, each with its own messages. */
+  choices?: ScenarioDocumentChoice[]
+}
+
+export class ScenarioFormatError extends Error {
+  constructor(readonly source: string, readonly problems: string[]) {
+    super(`Invalid playground scenario ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    this.name = 'ScenarioFormatError'
+  }
+}
+
+const PANELS: NonNullable<Scenario['panel']>[] = ['memory-timeline', 'prediction-tuner']
+const CHAT_ROLES = ['user', 'system', 'assistant'] as const
+const MESSAGE_KEYS = [...CHAT_ROLES, 'tool', 'result']
+
+type Fields = Record<string, unknown>
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+}
+
+function checkString(fields: Fields, key: string, path: string, required: boolean): string[] {
+  if (fields[key] === undefined) return required ? [`${path}${key} is required`] : []
+  return typeof fields[key] === 'string' ? [] : [`${path}${key} must be a string`]
+}
+
+function validateContextSeed(seed: unknown, path: string): string[] {
+  if (!isFields(seed)) return [`${path} must be an object`]
+  const errors = [
+    ...['id', 'project', 'summary', 'timestamp'].flatMap(key => checkString(seed, key, `${path}.`, true)),
+    ...['content', 'tags', 'source', 'rationale'].flatMap(key => checkString(seed, key, `${path}.`, false))
+  ]
+
+  if (typeof seed.timestamp === 'string' && !isDate(seed.timestamp)) {
+    errors.push(`${path}.timestamp must be an ISO 8601 date`)
+  }
+  if (seed.lastAccessed != null && !isDate(seed.lastAccessed)) {
+    errors.push(`${path}.lastAccessed must be an ISO 8601 date or null`)
+  }
+  if (seed.actionType !== undefined && !ACTION_TYPES.includes(seed.actionType as never)) {
+    errors.push(`${path}.actionType must be one of: ${ACTION_TYPES.join(', ')}`)
+  }
+  if (seed.causedBy != null && typeof seed.causedBy !== 'string') {
+    errors.push(`${path}.causedBy must be a context ID or null`)
+  }
+  if (seed.dependencies !== undefined &&
+      (!Array.isArray(seed.dependencies) || seed.dependencies.some(id => typeof id !== 'string'))) {
+    errors.push(`${path}.dependencies must be a list of context IDs`)
+  }
+  if (seed.accessCount !== undefined &&
+      (typeof seed.accessCount !== 'number' || !Number.isInteger(seed.accessCount) || seed.accessCount < 0)) {
+    errors.push(`${path}.accessCount must be a whole number of at least 0`)
+  }
+  return errors
+}
+
+function validateMessage(message: unknown, path: string, previous: unknown): string[] {
+  if (!isFields(message)) return [`${path} must be an object`]
+
+  const roles = Object.keys(message).filter(key => MESSAGE_KEYS.includes(key))
+  if (roles.length !== 1) {
+    return [`${path} must have exactly one of: ${MESSAGE_KEYS.join(', ')}`]
+  }
+
+  const [role] = roles
+  if (role === 'tool') {
+    const extra = Object.keys(message).filter(key => key !== 'tool' && key !== 'params')
+    if (extra.length) return [`${path} has unknown keys: ${extra.join(', ')}`]
+
+    const tool = toolDefinitions.find(definition => definition.name === message.tool)
+    if (!tool) {
+      return [`${path}.tool must be one of: ${toolDefinitions.map(definition => definition.name).join(', ')}`]
+    }
+    return validateToolParams(tool.inputSchema, message.params ?? {}, `${path}.params`)
+  }
+
+  if (role === 'result') {
+    const errors: string[] = []
+    const extra = Object.keys(message).filter(key => !['result', 'recorded', 'isError'].includes(key))
+    if (extra.length) errors.push(`${path} has unknown keys: ${extra.join(', ')}`)
+    if (message.result !== null && typeof message.result !== 'string') errors.push(`${path}.result must be a label or empty`)
+    if (message.recorded !== undefined && typeof message.recorded !== 'string') errors.push(`${path}.recorded must be text`)
+    if (message.isError !== undefined && typeof message.isError !== 'boolean') errors.push(`${path}.isError must be true or false`)
+    if (message.isError !== undefined && message.recorded === undefined) errors.push(`${path}.isError needs recorded output`)
+    if (!isFields(previous) || previous.tool === undefined) errors.push(`${path} must directly follow a tool call`)
+    return errors
+  }
+
+  if (Object.keys(message).length > 1) return [`${path} has unknown keys next to ${role}`]
+
+  return typeof message[role] === 'string' ? [] : [`${path}.${role} must be text`]
+}
+
+// A result needs the tool call before it, so a branch's first message is
+// checked against the last message of the path leading to it
+function validateMessages(messages: unknown, path: string, previous?: unknown): string[] {
+  if (!Array.isArray(messages) || messages.length === 0) return [`${path} must be a non-empty list`]
+  return messages.flatMap((message, index) =>
+    validateMessage(message, `${path}[${index}]`, index > 0 ? messages[index - 1] : previous)
+  )
+}
+
+function validateChoices(choices: unknown, path: string, previous: unknown): string[] {
+  if (!Array.isArray(choices) || choices.length < 2) return [`${path} must be a list of at least two choices`]
+
+  return choices.flatMap((choice, index) => {
+    const choicePath = `${path}[${index}]`
+    if (!isFields(choice)) return [`${choicePath} must be an object`]
+
+    const errors = checkString(choice, 'label', `${choicePath}.`, true)
+    const unknown = Object.keys(choice).filter(key => !['label', 'messages', 'choices'].includes(key))
+    if (unknown.length) errors.push(`${choicePath} has unknown keys: ${unknown.join(', ')}`)
+
+    errors.push(...validateMessages(choice.messages, `${choicePath}.messages`, previous))
+    if (choice.choices !== undefined && Array.isArray(choice.messages)) {
+      errors.push(...validateChoices(choice.choices, `${choicePath}.choices`, choice.messages[choice.messages.length - 1]))
+    }
+    return errors
+  })
+}
+
+/** Check a parsed scenario file. Returns one message per problem. */
+export function validateScenarioDocument(document: unknown): string[] {
+  if (!isFields(document)) return ['the scenario must be an object']
+
+  const errors = ['title', 'icon', 'description', 'category'].flatMap(key => checkString(document, key, '', true))
+
+  if (document.order !== undefined && typeof document.order !== 'number') {
+    errors.push('order must be a number')
+  }
+  if (document.panel !== undefined && !PANELS.includes(document.panel as never)) {
+    errors.push(`panel must be one of: ${PANELS.join(', ')}`)
+  }
+  if (document.now !== undefined && !isDate(document.now)) {
+    errors.push('now must be an ISO date string')
+  }
+  if (document.contexts !== undefined) {
+    if (Array.isArray(document.contexts)) {
+      document.contexts.forEach((seed, index) => errors.push(...validateContextSeed(seed, `contexts[${index}]`)))
+    } else {
+      errors.push('contexts must be a list')
+    }
+  }
+  if (document.corpus !== undefined) {
+    errors.push(...validateCorpusOptions(document.corpus, 'corpus'))
+  }
+
+  const { messages } = document
+  errors.push(...validateMessages(messages, 'messages'))
+  if (document.choices !== undefined && Array.isArray(messages)) {
+    errors.push(...validateChoices(document.choices, 'choices', messages[messages.length - 1]))
+  }
+
+  const known = ['title', 'icon', 'description', 'category', 'order', 'panel', 'now', 'contexts', 'corpus', 'messages', 'choices']
+  const unknown = Object.keys(document).filter(key => !known.includes(key))
+  if (unknown.length) errors.push(`unknown keys: ${unknown.join(', ')}`)
+
+  return errors
+}
+
+function toScenarioMessage(message: ScenarioDocumentMessage, previous: ScenarioDocumentMessage | undefined): ScenarioMessage {
+  if ('tool' in message) {
+    return { role: 'tool', content: 'Tool Invocation', toolName: message.tool, toolParams: message.params ?? {} } as ToolInvocationMessage
+  }
+  if ('result' in message) {
+    // Validation guarantees a tool call comes first
+    const toolName = (previous as ScenarioDocumentToolCall).tool
+    const content = message.result ?? `Tool Result - ${toolName}`
+    if (message.recorded === undefined) return { role: 'tool', content }
+    return {
+      role: 'tool',
+      content,
+      toolName,
+      recordedResult: { text: message.recorded, ...(message.isError && { isError: true }) }
+    }
+  }
+  const role = CHAT_ROLES.find(role => role in message)!
+  return { role, content: (message as Record<typeof role, string>)[role] }
+}
+
+function toScenarioMessages(messages: ScenarioDocumentMessage[], previous?: ScenarioDocumentMessage): ScenarioMessage[] {
+  return messages.map((message, index) => toScenarioMessage(message, index > 0 ? messages[index - 1] : previous))
+}
+
+function toScenarioChoices(choices: ScenarioDocumentChoice[], previous: ScenarioDocumentMessage): ScenarioChoice[] {
+  return choices.map(({ label, messages, choices }) => ({
+    label,
+    messages: toScenarioMessages(messages, previous),
+    ...(choices && { choices: toScenarioChoices(choices, messages[messages.length - 1]) })
+  }))
+}
+
+/**
+ * Validate a scenario document and convert it for the player. Throws a
+ * `ScenarioFormatError` listing every problem; `source` names the document
+ * in the message.
+ */
+export function scenarioFromDocument(id: string, document: unknown, source = id): Scenario & { order?: number } {
+  const errors = validateScenarioDocument(document)
+  if (errors.length) throw new ScenarioFormatError(source, errors)
+
+  const { title, icon, description, category, order, panel, now, contexts, corpus, messages, choices } = document as ScenarioDocument
+  return {
+    id,
+    icon,
+    title,
+    description,
+    category,
+    ...(order !== undefined && { order }),
+    ...(panel && { panel }),
+    ...(now && { now }),
+    ...(contexts && { contexts }),
+    ...(corpus && { corpus }),
+    messages: toScenarioMessages(messages),
+    ...(choices && { choices: toScenarioChoices(choices, messages[messages.length - 1]) })
+  }
+}
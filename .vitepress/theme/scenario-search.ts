@@ -0,0 +1,82 @@
+/**
+ * Search index entries for the playground scenarios.
+ *
+ * Local search only indexes Markdown, and the scenarios are rendered by a
+ * component, so config.mts appends this HTML to the playground page when
+ * indexing it. Each scenario and each step becomes a heading section whose
+ * anchor opens the playground there; the HTML is never shown on the page.
+ * Steps on every branch of a scenario are indexed, each once.
+ */
+
+import { replayScenario, resolveScenarioPath, scenarioPaths, type Message, type Scenario } from './playground-data'
+import { scenarioSearchAnchor } from './playground-state'
+import type { TemplateFormat } from './reply-templates'
+
+const TITLE_LENGTH = 80
+// The index is built once for every reader, so replies are rendered in a fixed locale
+const SEARCH_FORMAT: TemplateFormat = { locale: 'en-US', timeZone: 'UTC' }
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function clip(text: string): string {
+  const line = text.split('\n')[0].trim()
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line
+}
+
+/** Every string and number in a value, e.g. the summaries in a tool result. */
+function leafText(value: unknown): string[] {
+  if (typeof value === 'string') return [value]
+  if (typeof value === 'number') return [String(value)]
+  if (Array.isArray(value)) return value.flatMap(leafText)
+  if (typeof value === 'object' && value !== null) return Object.values(value).flatMap(leafText)
+  return []
+}
+
+function heading(level: 2 | 3, anchor: string, title: string): string {
+  return `<h${level} id="${anchor}" tabindex="-1">${escapeHtml(title)} ` +
+    `<a class="header-anchor" href="#${anchor}" aria-hidden="true">&#8203;</a></h${level}>`
+}
+
+function stepSection(message: Message, renderMarkdown: (markdown: string) => string): { title: string; html: string } | null {
+  if (message.role !== 'tool') {
+    if (message.role === 'system') return null
+    const title = message.role === 'user' ? clip(message.content) : 'WakeIQX reply'
+    return { title, html: renderMarkdown(message.content) }
+  }
+
+  if (message.toolParams) {
+    return { title: message.toolName, html: `<p>${escapeHtml(leafText(message.toolParams).join(' · '))}</p>` }
+  }
+  const text = message.recordedResult ? [message.recordedResult.text] : leafText(message.toolResult)
+  return { title: message.content, html: `<p>${escapeHtml(text.join(' · '))}</p>` }
+}
+
+/**
+ * Search sections for the scenarios: one per scenario with its description,
+ * then one per step with what the step shows, tool results included.
+ */
+export function scenarioSearchHtml(scenarios: Scenario[], renderMarkdown: (markdown: string) => string): string {
+  return scenarios.map(scenario => {
+    // Branches share the steps before them, so each step is indexed once, under
+    // the choices that lead to it
+    const indexed = new Set<string>()
+    const steps = scenarioPaths(scenario).flatMap(path => {
+      const { choiceSteps } = resolveScenarioPath(scenario, path)
+      return replayScenario(scenario, path, SEARCH_FORMAT).map((message, step) => {
+        const anchor = scenarioSearchAnchor(scenario.id, step, path.slice(0, choiceSteps.filter(start => start <= step).length))
+        const section = indexed.has(anchor) ? null : stepSection(message, renderMarkdown)
+        indexed.add(anchor)
+        if (!section) return ''
+        return heading(3, anchor, `Step ${step + 1}: ${section.title}`) + section.html
+      })
+    })
+
+    return [
+      heading(2, scenarioSearchAnchor(scenario.id), `${scenario.icon} ${scenario.title}`),
+      `<p>${escapeHtml(`${scenario.description} · ${scenario.category}`)}</p>`,
+      ...steps
+    ].join('\n')
+  }).join('\n')
+}
@@ -0,0 +1,78 @@
+/**
+ * D1 seed SQL for a store of context snapshots, so a corpus generated or
+ * built up in the playground can be loaded into a real WakeIQX database.
+ *
+ * Rows follow the `context_snapshots` table in
+ * `development/database-schema.md`, one column per layer field; the table
+ * has no `content` column, so only summaries are kept. Statements use
+ * `INSERT OR REPLACE`, so applying a file twice leaves one copy of each row.
+ */
+
+import type { IContextSnapshot } from './wake-engine'
+
+const COLUMNS = [
+  'id', 'project', 'summary', 'source', 'metadata', 'tags', 'timestamp',
+  'action_type', 'rationale', 'dependencies', 'caused_by',
+  'memory_tier', 'last_accessed', 'access_count',
+  'prediction_score', 'last_predicted', 'predicted_next_access', 'propagation_reason'
+]
+
+// Keeps each statement well under D1's statement size limit
+const ROWS_PER_STATEMENT = 100
+
+type SqlValue = string | number | null
+
+function literal(value: SqlValue | undefined): string {
+  if (value === null || value === undefined) return 'NULL'
+  if (typeof value === 'number') return String(value)
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function row(snapshot: IContextSnapshot): SqlValue[] {
+  const { causality, memory, propagation } = snapshot
+  return [
+    snapshot.id,
+    snapshot.project,
+    snapshot.summary,
+    snapshot.source,
+    snapshot.metadata ? JSON.stringify(snapshot.metadata) : null,
+    snapshot.tags,
+    snapshot.timestamp.toISOString(),
+    causality?.actionType ?? null,
+    causality?.rationale || null,
+    causality ? JSON.stringify(causality.dependencies) : null,
+    causality?.causedBy ?? null,
+    memory?.tier ?? 'ACTIVE',
+    memory?.lastAccessed?.toISOString() ?? null,
+    memory?.accessCount ?? 0,
+    propagation?.lastPredicted ? propagation.predictionScore : null,
+    propagation?.lastPredicted?.toISOString() ?? null,
+    propagation?.predictedNextAccess?.toISOString() ?? null,
+    propagation?.lastPredicted ? JSON.stringify(propagation.propagationReason) : null
+  ]
+}
+
+/**
+ * SQL that inserts `snapshots` into `context_snapshots`, with a header
+ * saying what it holds and how to apply it. Rows are inserted oldest
+ * first.
+ */
+export function contextSeedSql(snapshots: IContextSnapshot[]): string {
+  const sorted = [...snapshots].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id.localeCompare(b.id))
+  const projects = [...new Set(sorted.map(snapshot => snapshot.project))]
+
+  const statements: string[] = []
+  for (let start = 0; start < sorted.length; start += ROWS_PER_STATEMENT) {
+    const values = sorted.slice(start, start + ROWS_PER_STATEMENT)
+      .map(snapshot => `  (${row(snapshot).map(literal).join(', ')})`)
+    statements.push(`INSERT OR REPLACE INTO context_snapshots (${COLUMNS.join(', ')}) VALUES\n${values.join(',\n')};`)
+  }
+
+  return [
+    `-- WakeIQX context snapshots: ${sorted.length} ${sorted.length === 1 ? 'row' : 'rows'} in ${projects.join(', ') || 'no projects'}`,
+    '-- Apply with: npx wrangler d1 execute <database> --file=<this file>',
+    '',
+    ...statements,
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,430 @@
+/**
+ * Synthetic context corpora, for showing the engine with thousands of
+ * snapshots where the demo store has a dozen.
+ *
+ * `generateCorpus` turns a `CorpusOptions` into context seeds. Generation is
+ * deterministic: the same options and `now` always give the same corpus, and
+ * each project is drawn from its own stream, so adding a project leaves the
+ * others as they were. Contexts form threads on a topic: a context either
+ * starts a thread or is caused by a recent context that still has room for
+ * children, within the depth and branching limits. Access history is laid
+ * over the timeline according to `accessPattern`.
+ */
+
+import { ACTION_TYPES, type ActionType, type ContextSeed } from './wake-engine'
+
+/**
+ * How revisits are spread over the corpus's history: `recency` mostly
+ * revisits recent contexts, `uniform` revisits every context at a random
+ * later time, `bursty` revisits in a few work sessions.
+ */
+export type AccessPattern = 'recency' | 'uniform' | 'bursty'
+
+export const ACCESS_PATTERNS: AccessPattern[] = ['recency', 'uniform', 'bursty']
+
+export interface CorpusOptions {
+  seed: number
+  projects: string[]
+  contextsPerProject: number
+  /** Relative weight of each action type; types left out are never picked. */
+  actionMix: Partial<Record<ActionType, number>>
+  /** Chance, 0 to 1, that a context continues an earlier context's thread. */
+  causalRate: number
+  /** Most `causedBy` links between a context and its root. */
+  maxDepth: number
+  /** Most contexts one context directly causes. */
+  maxBranching: number
+  /** Chance, 0 to 1, that a context depends on another one outside its thread. */
+  dependencyRate: number
+  /** Days of history before now that contexts are created over. */
+  days: number
+  accessPattern: AccessPattern
+}
+
+/** Limits that keep a corpus within what a browser tab replays comfortably. */
+export const CORPUS_LIMITS = {
+  projects: 10,
+  contextsPerProject: 5000,
+  maxDepth: 50,
+  maxBranching: 20,
+  days: 365 * 3
+} as const
+
+export function defaultCorpusOptions(): CorpusOptions {
+  return {
+    seed: 1,
+    projects: ['synthetic-saas'],
+    contextsPerProject: 1000,
+    actionMix: { conversation: 3, decision: 2, file_edit: 4, tool_use: 2, research: 2 },
+    causalRate: 0.7,
+    maxDepth: 12,
+    maxBranching: 4,
+    dependencyRate: 0.15,
+    days: 90,
+    accessPattern: 'recency'
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+type Fields = Record<string, unknown>
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function checkNumber(fields: Fields, key: string, path: string, min: number, max: number, integer: boolean): string[] {
+  const value = fields[key]
+  if (value === undefined) return []
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    return [`${path}${key} must be a ${integer ? 'whole number' : 'number'}`]
+  }
+  return value < min || value > max ? [`${path}${key} must be between ${min} and ${max}`] : []
+}
+
+/**
+ * Check corpus options, any of which may be left out for their default.
+ * Returns one message per problem, each prefixed with `path`.
+ */
+export function validateCorpusOptions(options: unknown, path = ''): string[] {
+  if (!isFields(options)) return [`${path || 'corpus options'} must be an object`]
+  const prefix = path ? `${path}.` : ''
+
+  const errors = [
+    ...checkNumber(options, 'seed', prefix, 0, 2 ** 32 - 1, true),
+    ...checkNumber(options, 'contextsPerProject', prefix, 1, CORPUS_LIMITS.contextsPerProject, true),
+    ...checkNumber(options, 'causalRate', prefix, 0, 1, false),
+    ...checkNumber(options, 'maxDepth', prefix, 1, CORPUS_LIMITS.maxDepth, true),
+    ...checkNumber(options, 'maxBranching', prefix, 1, CORPUS_LIMITS.maxBranching, true),
+    ...checkNumber(options, 'dependencyRate', prefix, 0, 1, false),
+    ...checkNumber(options, 'days', prefix, 1, CORPUS_LIMITS.days, false)
+  ]
+
+  const { projects, actionMix, accessPattern } = options
+  if (projects !== undefined &&
+      (!Array.isArray(projects) || projects.length === 0 || projects.length > CORPUS_LIMITS.projects ||
+        projects.some(project => typeof project !== 'string' || !project.trim()) || new Set(projects).size !== projects.length)) {
+    errors.push(`${prefix}projects must be a list of 1 to ${CORPUS_LIMITS.projects} distinct project names`)
+  }
+  if (actionMix !== undefined) {
+    if (!isFields(actionMix)) {
+      errors.push(`${prefix}actionMix must map action types to weights`)
+    } else {
+      const unknown = Object.keys(actionMix).filter(type => !ACTION_TYPES.includes(type as never))
+      if (unknown.length) errors.push(`${prefix}actionMix has unknown action types: ${unknown.join(', ')}`)
+      for (const type of ACTION_TYPES) errors.push(...checkNumber(actionMix, type, `${prefix}actionMix.`, 0, Infinity, false))
+      if (!Object.values(actionMix).some(weight => typeof weight === 'number' && weight > 0)) {
+        errors.push(`${prefix}actionMix needs at least one weight above 0`)
+      }
+    }
+  }
+  if (accessPattern !== undefined && !ACCESS_PATTERNS.includes(accessPattern as never)) {
+    errors.push(`${prefix}accessPattern must be one of: ${ACCESS_PATTERNS.join(', ')}`)
+  }
+
+  const known = ['seed', 'projects', 'contextsPerProject', 'actionMix', 'causalRate', 'maxDepth', 'maxBranching',
+    'dependencyRate', 'days', 'accessPattern']
+  const unknown = Object.keys(options).filter(key => !known.includes(key))
+  if (unknown.length) errors.push(`${path || 'corpus options'} has unknown keys: ${unknown.join(', ')}`)
+
+  return errors
+}
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+interface Topic {
+  name: string
+  tags: string[]
+  aspects: string[]
+  /** Technologies or approaches decisions and research choose between. */
+  options: string[]
+}
+
+const TOPICS: Topic[] = [
+  {
+    name: 'authentication',
+    tags: ['auth', 'security', 'sessions'],
+    aspects: ['session handling', 'token refresh', 'login errors', 'password reset'],
+    options: ['JWT', 'OAuth2 with PKCE', 'session cookies', 'passkeys']
+  },
+  {
+    name: 'billing',
+    tags: ['billing', 'payments', 'invoices'],
+    aspects: ['invoice generation', 'proration', 'webhook retries', 'tax rules'],
+    options: ['Stripe Billing', 'Paddle', 'usage-based pricing', 'flat tiers']
+  },
+  {
+    name: 'search',
+    tags: ['search', 'indexing', 'ranking'],
+    aspects: ['indexing', 'ranking', 'typo tolerance', 'filters'],
+    options: ['D1 full-text search', 'Vectorize', 'Meilisearch', 'Algolia']
+  },
+  {
+    name: 'deployment',
+    tags: ['deployment', 'ci', 'workers'],
+    aspects: ['preview environments', 'rollbacks', 'secrets', 'build caching'],
+    options: ['Wrangler', 'GitHub Actions', 'canary releases', 'blue-green deploys']
+  },
+  {
+    name: 'rate limiting',
+    tags: ['rate-limiting', 'api', 'quotas'],
+    aspects: ['per-tenant quotas', 'burst handling', 'error responses', 'quota dashboards'],
+    options: ['Durable Objects', 'a token bucket', 'a sliding window', 'KV counters']
+  },
+  {
+    name: 'database',
+    tags: ['database', 'd1', 'migrations'],
+    aspects: ['migrations', 'indexes', 'tenant isolation', 'backups'],
+    options: ['D1', 'Postgres', 'row-level tenancy', 'a schema per tenant']
+  },
+  {
+    name: 'caching',
+    tags: ['caching', 'performance', 'kv'],
+    aspects: ['invalidation', 'cache keys', 'stale reads', 'edge TTLs'],
+    options: ['Workers KV', 'the Cache API', 'Redis', 'stale-while-revalidate']
+  },
+  {
+    name: 'observability',
+    tags: ['observability', 'logging', 'tracing'],
+    aspects: ['request tracing', 'error alerts', 'log retention', 'dashboards'],
+    options: ['Workers Analytics Engine', 'OpenTelemetry', 'Sentry', 'Logpush']
+  },
+  {
+    name: 'notifications',
+    tags: ['notifications', 'email', 'queues'],
+    aspects: ['email templates', 'digest scheduling', 'unsubscribe links', 'push delivery'],
+    options: ['Queues', 'Resend', 'a cron trigger', 'Web Push']
+  },
+  {
+    name: 'file uploads',
+    tags: ['uploads', 'storage', 'r2'],
+    aspects: ['multipart uploads', 'virus scanning', 'signed URLs', 'size limits'],
+    options: ['R2', 'presigned URLs', 'a Worker proxy', 'direct uploads']
+  },
+  {
+    name: 'onboarding',
+    tags: ['onboarding', 'signup', 'ux'],
+    aspects: ['signup flow', 'sample data', 'email verification', 'product tours'],
+    options: ['a setup wizard', 'a checklist', 'magic links', 'guided tours']
+  },
+  {
+    name: 'localization',
+    tags: ['i18n', 'localization', 'formatting'],
+    aspects: ['date formats', 'translation files', 'right-to-left layouts', 'pluralization'],
+    options: ['ICU messages', 'i18next', 'the Intl APIs', 'a translation service']
+  }
+]
+
+const TOOLS = ['wrangler tail', 'Lighthouse', 'k6', 'the D1 console', 'Playwright', 'Vitest']
+
+// `{topic}`, `{aspect}`, `{option}`, `{alternative}` and `{tool}` are filled in per context
+const SUMMARIES: Record<ActionType, string[]> = {
+  conversation: [
+    'Team discussion: {aspect} for {topic}',
+    'Call with stakeholders about {topic} {aspect}',
+    'Design review of {topic} {aspect}'
+  ],
+  decision: [
+    'Decided to use {option} for {topic}',
+    'Chose {option} over {alternative} for {aspect}',
+    'Agreed to postpone {topic} {aspect}'
+  ],
+  file_edit: [
+    'Implemented {aspect} for {topic}',
+    'Refactored {topic} {aspect}',
+    'Fixed a {topic} bug in {aspect}'
+  ],
+  tool_use: [
+    'Ran {tool} against {topic} {aspect}',
+    'Profiled {aspect} with {tool}',
+    'Checked {topic} {aspect} with {tool}'
+  ],
+  research: [
+    'Researched {option} vs {alternative} for {topic}',
+    'Benchmarked {option} for {aspect}',
+    'Read up on {topic} {aspect} best practices'
+  ]
+}
+
+const RATIONALES: Record<ActionType, string> = {
+  conversation: 'Open questions about {topic} {aspect} needed the team',
+  decision: '{option} covers {aspect} with less work than {alternative}',
+  file_edit: '{aspect} was blocking the {topic} work',
+  tool_use: 'Needed numbers before changing {topic} {aspect}',
+  research: 'Comparing options before committing to a {topic} design'
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+const HOUR_MS = 1000 * 60 * 60
+const DAY_MS = HOUR_MS * 24
+// A new context continues one of the most recent contexts with room for children
+const RECENT_PARENTS = 25
+
+type Random = () => number
+
+// mulberry32: small, fast and good enough for demo data
+function createRandom(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+}
+
+// FNV-1a, so each project draws from its own stream of the seed
+function hash(text: string, seed: number): number {
+  let value = (0x811c9dc5 ^ seed) >>> 0
+  for (let index = 0; index < text.length; index++) {
+    value = Math.imul(value ^ text.charCodeAt(index), 0x01000193) >>> 0
+  }
+  return value
+}
+
+function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+// Fisher-Yates; a random sort comparator would depend on the engine's sort
+function shuffle<T>(random: Random, items: readonly T[]): T[] {
+  const shuffled = [...items]
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const other = Math.floor(random() * (index + 1))
+    ;[shuffled[index], shuffled[other]] = [shuffled[other], shuffled[index]]
+  }
+  return shuffled
+}
+
+function pickWeighted(random: Random, mix: Partial<Record<ActionType, number>>): ActionType {
+  const weighted = ACTION_TYPES.filter(type => (mix[type] ?? 0) > 0)
+  let remaining = random() * weighted.reduce((total, type) => total + mix[type]!, 0)
+  return weighted.find(type => (remaining -= mix[type]!) < 0) ?? weighted[weighted.length - 1]
+}
+
+function fill(template: string, words: Record<string, string>): string {
+  const text = template.replace(/\{(\w+)\}/g, (_, key: string) => words[key])
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function slug(project: string): string {
+  return project.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'project'
+}
+
+interface Draft {
+  seed: ContextSeed
+  topic: Topic
+  depth: number
+  children: number
+}
+
+// When each context was last loaded and how often, from its creation to now
+function accessHistory(
+  random: Random,
+  draft: Draft,
+  pattern: AccessPattern,
+  sessions: number[],
+  now: number
+): { lastAccessed: string | null; accessCount: number } {
+  const created = Date.parse(draft.seed.timestamp)
+  const age = now - created
+  let lastAccessed: number | null = null
+
+  if (pattern === 'uniform') {
+    lastAccessed = created + age * random()
+  } else if (pattern === 'recency') {
+    // Revisits fade over about ten days; when they happen, they lean towards now
+    if (random() < Math.exp(-age / (10 * DAY_MS))) lastAccessed = now - age * random() ** 3
+  } else {
+    const session = sessions.find(start => start >= created)
+    if (session !== undefined && random() < 0.6) lastAccessed = Math.min(now, session + 2 * HOUR_MS * random())
+  }
+
+  if (lastAccessed === null) return { lastAccessed: null, accessCount: 0 }
+  // Contexts that caused others get loaded while following them up
+  const accessCount = 1 + Math.floor(-Math.log(1 - random()) * 3) + draft.children
+  return { lastAccessed: new Date(Math.round(lastAccessed / 1000) * 1000).toISOString(), accessCount }
+}
+
+function generateProject(project: string, options: CorpusOptions, now: number): ContextSeed[] {
+  const random = createRandom(hash(project, options.seed))
+  const { contextsPerProject: count, days } = options
+  const width = String(count).length
+  const topics = shuffle(random, TOPICS).slice(0, 4 + Math.floor(random() * 5))
+
+  // Creation times, oldest first, on whole minutes
+  const start = now - days * DAY_MS
+  const times = Array.from({ length: count }, () => Math.floor((start + random() * (now - start)) / 60000) * 60000)
+    .sort((a, b) => a - b)
+
+  const drafts: Draft[] = []
+  const open: Draft[] = []
+  times.forEach((time, index) => {
+    const candidates = open.slice(-RECENT_PARENTS)
+    const parent = candidates.length && random() < options.causalRate ? pick(random, candidates) : null
+    const topic = parent?.topic ?? pick(random, topics)
+    const actionType = pickWeighted(random, options.actionMix)
+
+    const [option, alternative] = shuffle(random, topic.options)
+    const words = { topic: topic.name, aspect: pick(random, topic.aspects), option, alternative, tool: pick(random, TOOLS) }
+    const dependencies = drafts.length && random() < options.dependencyRate
+      ? [pick(random, drafts).seed.id].filter(id => id !== parent?.seed.id)
+      : []
+
+    const draft: Draft = {
+      seed: {
+        id: `ctx_${slug(project)}_${String(index + 1).padStart(width, '0')}`,
+        project,
+        summary: fill(pick(random, SUMMARIES[actionType]), words),
+        tags: [...topic.tags, actionType.replace('_', '-')].join(', '),
+        source: 'synthetic',
+        timestamp: new Date(time).toISOString(),
+        actionType,
+        causedBy: parent?.seed.id ?? null,
+        rationale: fill(RATIONALES[actionType], words),
+        ...(dependencies.length > 0 && { dependencies })
+      },
+      topic,
+      depth: parent ? parent.depth + 1 : 0,
+      children: 0
+    }
+    drafts.push(draft)
+
+    if (parent && ++parent.children >= options.maxBranching) open.splice(open.indexOf(parent), 1)
+    if (draft.depth < options.maxDepth) open.push(draft)
+  })
+
+  // Work sessions for the bursty pattern, about two a week
+  const sessions = Array.from({ length: Math.max(2, Math.round(days / 3.5)) }, () => start + random() * (now - start))
+    .sort((a, b) => a - b)
+  return drafts.map(draft => ({ ...draft.seed, ...accessHistory(random, draft, options.accessPattern, sessions, now) }))
+}
+
+// Scenarios replay their corpus at every choice, so recent corpora are kept
+const CACHED_CORPORA = 4
+const generated = new Map<string, ContextSeed[]>()
+
+/**
+ * Generate a corpus of contexts created over the `days` before `now`, the
+ * projects' contexts one after the other. Options left out take their
+ * defaults; the options are expected to pass `validateCorpusOptions`.
+ */
+export function generateCorpus(options: Partial<CorpusOptions>, now: Date): ContextSeed[] {
+  const resolved: CorpusOptions = { ...defaultCorpusOptions(), ...options }
+  const key = JSON.stringify([resolved, now.getTime()])
+  const cached = generated.get(key)
+  if (cached) return cached
+
+  const corpus = resolved.projects.flatMap(project => generateProject(project, resolved, now.getTime()))
+  generated.set(key, corpus)
+  if (generated.size > CACHED_CORPORA) generated.delete(generated.keys().next().value!)
+  return corpus
+}
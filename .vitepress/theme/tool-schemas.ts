@@ -0,0 +1,344 @@
+/**
+ * Input schemas for the eight MCP tools the playground engine implements.
+ *
+ * Schemas follow the JSON Schema subset MCP servers publish in `tools/list`,
+ * and drive the playground's parameter forms and input checks. Hints only
+ * the forms use are kept apart in `toolFieldHints`, so the sandbox server
+ * publishes the schemas as they are.
+ */
+
+import { ACTION_TYPES } from './wake-engine'
+import type { ToolName } from './tool-types'
+
+export type ParamSchema =
+  | {
+      type: 'string'
+      description: string
+      enum?: readonly string[]
+      default?: string
+    }
+  | {
+      type: 'number' | 'integer'
+      description: string
+      minimum?: number
+      maximum?: number
+      default?: number
+    }
+  | {
+      type: 'array'
+      description: string
+      items: { type: 'string' }
+    }
+  | {
+      type: 'object'
+      description: string
+      properties: Record<string, ParamSchema>
+      /** Whether keys beyond `properties` are accepted. */
+      additionalProperties?: boolean
+    }
+
+export interface ToolInputSchema {
+  type: 'object'
+  properties: Record<string, ParamSchema>
+  required?: string[]
+}
+
+export interface ToolDefinition {
+  name: ToolName
+  description: string
+  inputSchema: ToolInputSchema
+}
+
+const PROJECT_EXAMPLE = 'ai-consulting-platform'
+const SNAPSHOT_EXAMPLE = 'ctx_auth_jwt_implementation_789'
+
+export const toolDefinitions: ToolDefinition[] = [
+  {
+    name: 'save_context',
+    description: 'Save conversation context with causality metadata',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: { type: 'string', description: 'Project identifier for context grouping' },
+        content: { type: 'string', description: 'The conversation content to save' },
+        source: { type: 'string', description: 'Source of the context', default: 'mcp' },
+        metadata: {
+          type: 'object',
+          description: 'Additional metadata, including Layer 1 causality',
+          additionalProperties: true,
+          properties: {
+            actionType: {
+              type: 'string',
+              description: 'What action created this context',
+              enum: ACTION_TYPES
+            },
+            causedBy: { type: 'string', description: 'Parent context ID' },
+            rationale: { type: 'string', description: 'Why this context was created' },
+            dependencies: { type: 'array', description: 'Related context IDs', items: { type: 'string' } }
+          }
+        }
+      },
+      required: ['project', 'content']
+    }
+  },
+  {
+    name: 'load_context',
+    description: 'Load recent contexts for a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: { type: 'string', description: 'Project identifier to load contexts from' },
+        limit: { type: 'integer', description: 'Maximum number of contexts to return', minimum: 1, default: 1 }
+      },
+      required: ['project']
+    }
+  },
+  {
+    name: 'search_context',
+    description: 'Search contexts by keywords across summaries and tags',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search keywords or phrase' },
+        project: { type: 'string', description: 'Limit search to a specific project' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'reconstruct_reasoning',
+    description: 'Explain WHY a context was created',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        snapshotId: { type: 'string', description: 'ID of the context to analyze' }
+      },
+      required: ['snapshotId']
+    }
+  },
+  {
+    name: 'build_causal_chain',
+    description: 'Trace decision history backwards to the root cause',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        snapshotId: { type: 'string', description: 'Starting context ID to trace backwards from' }
+      },
+      required: ['snapshotId']
+    }
+  },
+  {
+    name: 'get_memory_stats',
+    description: 'View memory tier distribution for a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: { type: 'string', description: 'Project to analyze' }
+      },
+      required: ['project']
+    }
+  },
+  {
+    name: 'update_predictions',
+    description: 'Refresh stale prediction scores',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: { type: 'string', description: 'Project to update predictions for' },
+        staleThreshold: { type: 'number', description: 'Hours before a prediction is considered stale', minimum: 0, default: 24 }
+      },
+      required: ['project']
+    }
+  },
+  {
+    name: 'get_high_value_contexts',
+    description: 'Retrieve contexts most likely to be needed next',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: { type: 'string', description: 'Project to search' },
+        minScore: { type: 'number', description: 'Minimum prediction score', minimum: 0, maximum: 1, default: 0.6 },
+        limit: { type: 'integer', description: 'Maximum contexts to return', minimum: 1, default: 5 }
+      },
+      required: ['project']
+    }
+  }
+]
+
+// ============================================================================
+// Form helpers
+// ============================================================================
+
+/** How the playground's tool console shows a field; not part of the schema. */
+export interface FieldHints {
+  /** Edit in a multi-line text box. */
+  multiline?: boolean
+  /** Filled in when the field has no default. */
+  example?: string
+}
+
+/** Form hints by tool, then by field path. */
+export const toolFieldHints: Partial<Record<ToolName, Record<string, FieldHints>>> = {
+  save_context: { project: { example: PROJECT_EXAMPLE }, content: { multiline: true } },
+  load_context: { project: { example: PROJECT_EXAMPLE } },
+  search_context: { query: { example: 'authentication' } },
+  reconstruct_reasoning: { snapshotId: { example: SNAPSHOT_EXAMPLE } },
+  build_causal_chain: { snapshotId: { example: SNAPSHOT_EXAMPLE } },
+  get_memory_stats: { project: { example: PROJECT_EXAMPLE } },
+  update_predictions: { project: { example: PROJECT_EXAMPLE } },
+  get_high_value_contexts: { project: { example: PROJECT_EXAMPLE } }
+}
+
+/** A leaf input in a tool form. Nested object properties use a dotted path. */
+export interface ToolField {
+  path: string
+  schema: Exclude<ParamSchema, { type: 'object' }>
+  required: boolean
+  hints: FieldHints
+}
+
+export function toolFields(tool: ToolDefinition): ToolField[] {
+  const fields: ToolField[] = []
+  const { inputSchema: schema } = tool
+  const required = new Set(schema.required ?? [])
+  const hints = toolFieldHints[tool.name] ?? {}
+
+  const visit = (properties: Record<string, ParamSchema>, prefix: string) => {
+    for (const [name, property] of Object.entries(properties)) {
+      const path = prefix ? `${prefix}.${name}` : name
+      if (property.type === 'object') {
+        visit(property.properties, path)
+      } else {
+        fields.push({ path, schema: property, required: !prefix && required.has(name), hints: hints[path] ?? {} })
+      }
+    }
+  }
+
+  visit(schema.properties, '')
+  return fields
+}
+
+/** Initial raw form values: schema defaults, falling back to the first example. */
+export function initialFormValues(tool: ToolDefinition): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const field of toolFields(tool)) {
+    const initial = 'default' in field.schema ? field.schema.default : undefined
+    values[field.path] = String(initial ?? field.hints.example ?? '')
+  }
+  return values
+}
+
+/**
+ * Convert raw form strings into tool params and check them against the
+ * schema. Empty optional fields are omitted so engine defaults apply.
+ */
+export function parseToolParams(
+  tool: ToolDefinition,
+  values: Record<string, string>
+): { params: Record<string, unknown>; errors: string[] } {
+  const params: Record<string, unknown> = {}
+  const errors: string[] = []
+
+  for (const field of toolFields(tool)) {
+    const raw = (values[field.path] ?? '').trim()
+    if (raw === '') {
+      if (field.required) errors.push(`${field.path} is required`)
+      continue
+    }
+
+    let value: unknown = raw
+    switch (field.schema.type) {
+      case 'string':
+        if (field.schema.enum && !field.schema.enum.includes(raw)) {
+          errors.push(`${field.path} must be one of: ${field.schema.enum.join(', ')}`)
+          continue
+        }
+        break
+      case 'number':
+      case 'integer': {
+        const number = Number(raw)
+        if (Number.isNaN(number)) {
+          errors.push(`${field.path} must be a number`)
+          continue
+        }
+        if (field.schema.type === 'integer' && !Number.isInteger(number)) {
+          errors.push(`${field.path} must be a whole number`)
+          continue
+        }
+        if (field.schema.minimum !== undefined && number < field.schema.minimum) {
+          errors.push(`${field.path} must be at least ${field.schema.minimum}`)
+          continue
+        }
+        if (field.schema.maximum !== undefined && number > field.schema.maximum) {
+          errors.push(`${field.path} must be at most ${field.schema.maximum}`)
+          continue
+        }
+        value = number
+        break
+      }
+      case 'array':
+        value = raw.split(',').map(item => item.trim()).filter(Boolean)
+        break
+    }
+
+    setPath(params, field.path, value)
+  }
+
+  return { params, errors }
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.')
+  let current = target
+  for (const key of keys.slice(0, -1)) {
+    current = (current[key] ??= {}) as Record<string, unknown>
+  }
+  current[keys[keys.length - 1]] = value
+}
+
+/**
+ * Check already-typed params (from a scenario file or JSON-RPC request)
+ * against a tool's schema. Returns one message per problem, prefixed with
+ * `path`.
+ */
+export function validateToolParams(schema: ToolInputSchema, params: unknown, path = 'params'): string[] {
+  return validateValue({ type: 'object', description: '', properties: schema.properties }, params, path, schema.required ?? [])
+}
+
+function validateValue(schema: ParamSchema, value: unknown, path: string, required: string[] = []): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`]
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of: ${schema.enum.join(', ')}`]
+      return []
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number`]
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be a whole number`]
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be at least ${schema.minimum}`]
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be at most ${schema.maximum}`]
+      return []
+    case 'array':
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return [`${path} must be a list of strings`]
+      return []
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} must be an object`]
+      const errors: string[] = []
+      const entries = value as Record<string, unknown>
+      for (const name of required) {
+        if (entries[name] === undefined) errors.push(`${path}.${name} is required`)
+      }
+      for (const [name, entry] of Object.entries(entries)) {
+        // Not `schema.properties[name]`, which finds `constructor` and the
+        // like on the prototype
+        const property = Object.hasOwn(schema.properties, name) ? schema.properties[name] : undefined
+        if (property) {
+          errors.push(...validateValue(property, entry, `${path}.${name}`))
+        } else if (!schema.additionalProperties) {
+          errors.push(`${path}.${name} is not a known parameter`)
+        }
+      }
+      return errors
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Parameter and result types for the eight MCP tools.
+ *
+ * Results mirror the documented `IContextSnapshot`, `MemoryStats` and causal
+ * chain shapes as they appear on the wire: dates are ISO 8601 strings.
+ */
+
+import type { ActionType, IContextSnapshot, MemoryStats, MemoryTier, ScoreBreakdown } from './wake-engine'
+
+/** ISO 8601 timestamp, as dates are serialized in tool results. */
+export type ISODate = string
+
+type SnapshotCausality = NonNullable<IContextSnapshot['causality']>
+
+/** A context as it appears in listing-style tool results. */
+export interface ContextSummary extends Pick<IContextSnapshot, 'id' | 'summary'> {
+  timestamp: ISODate
+}
+
+// ============================================================================
+// Layer-agnostic tools
+// ============================================================================
+
+export interface SaveContextParams {
+  project: string
+  content: string
+  source?: string
+  metadata?: {
+    actionType?: ActionType
+    causedBy?: string
+    rationale?: string
+    dependencies?: string[]
+    [key: string]: unknown
+  }
+}
+
+export interface SaveContextResult extends ContextSummary, Pick<IContextSnapshot, 'project' | 'tags'> {
+  memoryTier: MemoryTier
+  causality: SnapshotCausality
+  propagation: {
+    predictionScore: number
+    lastPredicted: ISODate | null
+  }
+}
+
+export interface LoadContextParams {
+  project: string
+  limit?: number
+}
+
+export interface LoadContextResult {
+  project: string
+  contexts: (ContextSummary & Pick<IContextSnapshot, 'tags'> & {
+    memoryTier: MemoryTier
+    lastAccessed: ISODate | null
+    accessCount: number
+  })[]
+}
+
+export interface SearchContextParams {
+  query: string
+  project?: string
+}
+
+export interface SearchContextResult {
+  results: (ContextSummary & {
+    memoryTier: MemoryTier
+    predictionScore: number
+    causedBy: string | null
+    actionType: ActionType
+    dependencies: string[]
+  })[]
+  totalFound: number
+  searchQuery: string
+  project: string | null
+}
+
+// ============================================================================
+// Layer 1: Causality
+// ============================================================================
+
+export interface SnapshotIdParams {
+  snapshotId: string
+}
+
+export interface ReconstructReasoningResult {
+  snapshot: ContextSummary
+  reasoning: {
+    actionType: ActionType | null
+    rationale: string | null
+    causedBy: ContextSummary | null
+  }
+  explanation: string
+}
+
+export interface CausalChainResult {
+  /** Root cause at index 0; `depth` is the distance from the root. */
+  chain: (ContextSummary & {
+    causedBy: string | null
+    actionType: ActionType
+    dependencies: string[]
+    memoryTier: MemoryTier
+    depth: number
+  })[]
+  totalDepth: number
+  rootCause: Pick<IContextSnapshot, 'id' | 'summary'>
+}
+
+// ============================================================================
+// Layer 2: Memory
+// ============================================================================
+
+export interface ProjectParams {
+  project: string
+}
+
+export interface MemoryStatsResult extends MemoryStats {
+  project: string
+  oldestContext: ISODate | null
+  newestContext: ISODate | null
+}
+
+// ============================================================================
+// Layer 3: Propagation
+// ============================================================================
+
+export interface UpdatePredictionsParams {
+  project: string
+  staleThreshold?: number
+}
+
+export interface UpdatePredictionsResult {
+  project: string
+  updated: number
+  staleThreshold: number
+}
+
+export interface HighValueContextsParams {
+  project: string
+  minScore?: number
+  limit?: number
+}
+
+export interface HighValueContextsResult {
+  contexts: (Pick<IContextSnapshot, 'id' | 'summary'> & {
+    predictionScore: number
+    propagationReason: string[]
+    lastAccessed: ISODate | null
+    memoryTier: MemoryTier
+    causalDepth: number
+    accessCount: number
+  })[]
+  totalEvaluated: number
+  scoreBreakdown: ScoreBreakdown
+}
+
+// ============================================================================
+// Tool map
+// ============================================================================
+
+export interface ToolMap {
+  save_context: { params: SaveContextParams; result: SaveContextResult }
+  load_context: { params: LoadContextParams; result: LoadContextResult }
+  search_context: { params: SearchContextParams; result: SearchContextResult }
+  reconstruct_reasoning: { params: SnapshotIdParams; result: ReconstructReasoningResult }
+  build_causal_chain: { params: SnapshotIdParams; result: CausalChainResult }
+  get_memory_stats: { params: ProjectParams; result: MemoryStatsResult }
+  update_predictions: { params: UpdatePredictionsParams; result: UpdatePredictionsResult }
+  get_high_value_contexts: { params: HighValueContextsParams; result: HighValueContextsResult }
+}
+
+export type ToolName = keyof ToolMap
+export type ToolParams<N extends ToolName> = ToolMap[N]['params']
+export type ToolResult<N extends ToolName> = ToolMap[N]['result']
+
+/** Shown in place of a result when a tool call fails. */
+export interface ToolError {
+  error: string
+}
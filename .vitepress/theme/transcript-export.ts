@@ -0,0 +1,132 @@
+/**
+ * Export a played scenario for use outside the playground.
+ *
+ * Every format covers the messages shown so far, so stopping at a step and
+ * exporting captures exactly what is on screen:
+ *
+ * - `json-rpc`: the tool calls as MCP JSON-RPC requests, one per line, after
+ *   the `initialize` handshake, ready to pipe into a stdio server or replay
+ *   one by one against `/mcp`. `transcript-import.ts` reads this back.
+ * - `shell`: the same calls as an `sh` script using the MCP Inspector CLI.
+ * - `markdown`: the conversation, with params and results as code blocks.
+ */
+
+import type { Message, Scenario, ToolInvocationMessage } from './playground-data'
+
+export type ExportFormat = 'json-rpc' | 'shell' | 'markdown'
+
+export interface ExportFile {
+  name: string
+  type: string
+  content: string
+}
+
+// MCP revision requested in the exported handshake
+const PROTOCOL_VERSION = '2025-06-18'
+const DEFAULT_SERVER_URL = 'http://localhost:8787/mcp'
+
+function invocations(messages: Message[]): ToolInvocationMessage[] {
+  return messages.filter((message): message is ToolInvocationMessage => message.role === 'tool' && !!message.toolParams)
+}
+
+export function exportJsonRpc(messages: Message[]): string {
+  const requests = [
+    {
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'wakeiqx-playground', version: '1.0.0' }
+      }
+    },
+    { jsonrpc: '2.0', method: 'notifications/initialized' },
+    ...invocations(messages).map((invocation, index) => ({
+      jsonrpc: '2.0',
+      id: index + 1,
+      method: 'tools/call',
+      params: { name: invocation.toolName, arguments: invocation.toolParams }
+    }))
+  ]
+  return requests.map(request => JSON.stringify(request)).join('\n') + '\n'
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+export function exportShellScript(scenario: Scenario, messages: Message[]): string {
+  const calls = invocations(messages).map(invocation => {
+    const args = Object.entries(invocation.toolParams).map(([name, value]) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value)
+      return `  --tool-arg ${shellQuote(`${name}=${text}`)}`
+    })
+    return [`wakeiqx --method tools/call --tool-name ${invocation.toolName}`, ...args].join(' \\\n')
+  })
+
+  return [
+    '#!/usr/bin/env sh',
+    `# ${scenario.icon} ${scenario.title}`,
+    '# Replays the scenario\'s tool calls with the MCP Inspector CLI.',
+    '#',
+    `# Usage: sh ${scenario.id}.sh [server URL]   (default: $WAKEIQX_MCP_URL or ${DEFAULT_SERVER_URL})`,
+    'set -eu',
+    '',
+    `SERVER="\${1:-\${WAKEIQX_MCP_URL:-${DEFAULT_SERVER_URL}}}"`,
+    '',
+    'wakeiqx() {',
+    '  npx -y @modelcontextprotocol/inspector --cli "$SERVER" --transport http "$@"',
+    '}',
+    '',
+    calls.length ? calls.join('\n\n') : '# No tool calls yet',
+    ''
+  ].join('\n')
+}
+
+/** A code fence longer than any backtick run in `content`. */
+function codeBlock(content: string, lang = ''): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(longest + 1)
+  return `${fence}${lang}\n${content.replace(/\n$/, '')}\n${fence}`
+}
+
+function markdownMessage(message: Message): string {
+  switch (message.role) {
+    case 'user':
+      return `### 👤 You\n\n${message.content}`
+    case 'assistant':
+      return `### 🐦 WakeIQX\n\n${message.content}`
+    case 'system':
+      return `_${message.content}_`
+  }
+  if (message.toolParams) {
+    return `### ⚡ \`${message.toolName}\`\n\n${codeBlock(JSON.stringify(message.toolParams, null, 2), 'json')}`
+  }
+  if (message.recordedResult) {
+    const icon = message.recordedResult.live ? '🔌' : '📼'
+    const status = message.recordedResult.isError ? ' (error)' : ''
+    return `### ${icon} ${message.content}${status}\n\n${codeBlock(message.recordedResult.text)}`
+  }
+  return `### 📊 ${message.content}\n\n${codeBlock(JSON.stringify(message.toolResult, null, 2), 'json')}`
+}
+
+export function exportMarkdown(scenario: Scenario, messages: Message[]): string {
+  return [
+    `## ${scenario.icon} ${scenario.title}`,
+    `> ${scenario.description}`,
+    ...messages.map(markdownMessage),
+    `<sub>Exported from the WakeIQX playground · ${messages.length} of ${scenario.messages.length} steps</sub>`
+  ].join('\n\n') + '\n'
+}
+
+export function exportScenario(format: ExportFormat, scenario: Scenario, messages: Message[]): ExportFile {
+  switch (format) {
+    case 'json-rpc':
+      return { name: `${scenario.id}.jsonl`, type: 'application/jsonl', content: exportJsonRpc(messages) }
+    case 'shell':
+      return { name: `${scenario.id}.sh`, type: 'text/x-shellscript', content: exportShellScript(scenario, messages) }
+    case 'markdown':
+      return { name: `${scenario.id}.md`, type: 'text/markdown', content: exportMarkdown(scenario, messages) }
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Turn recordings of real WakeIQX sessions into playground scenarios.
+ *
+ * Two kinds of recording are understood:
+ *
+ * - An MCP JSON-RPC transcript: the messages a client and server exchanged,
+ *   as a JSON array or one message per line. Each `tools/call` request
+ *   becomes a tool call and its response a recorded result.
+ * - A Claude Desktop-style conversation export: `user`/`assistant` turns
+ *   whose content may include `tool_use` and `tool_result` blocks.
+ *
+ * Redaction rules are applied to every string before it reaches the
+ * scenario, so the output is safe to commit to `playground/`.
+ */
+
+import { toolDefinitions } from './tool-schemas'
+import type { ToolName, ToolParams } from './tool-types'
+import type { ScenarioDocument, ScenarioDocumentMessage, ScenarioDocumentToolCall } from './scenario-format'
+
+export interface TextReplacement {
+  /** Regular expression, matched case-sensitively against all text. */
+  pattern: string
+  replacement: string
+}
+
+export interface RedactionRules {
+  /** Replace context IDs (`ctx_…`) with numbered placeholders, consistently across the transcript. */
+  ids: boolean
+  /** Parameter and JSON result keys whose string values become `[redacted]`. */
+  fields: string[]
+  replacements: TextReplacement[]
+}
+
+export function defaultRedactionRules(): RedactionRules {
+  return { ids: true, fields: [], replacements: [] }
+}
+
+export type TranscriptFormat = 'json-rpc' | 'conversation'
+
+export interface TranscriptImport {
+  format: TranscriptFormat
+  document: ScenarioDocument
+  /** Parts of the transcript that were left out, e.g. calls to tools WakeIQX does not have. */
+  warnings: string[]
+}
+
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TranscriptImportError'
+  }
+}
+
+type Fields = Record<string, unknown>
+type ResultMessage = Extract<ScenarioDocumentMessage, { result: string | null }>
+
+/** A tool call and, once its response is found, the result that follows it. */
+interface CallItem {
+  call: ScenarioDocumentToolCall
+  result?: ResultMessage
+}
+
+type Item = ScenarioDocumentMessage | CallItem
+
+const CONTEXT_ID = /\bctx_[A-Za-z0-9_]+/g
+const REDACTED = '[redacted]'
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+class Redactor {
+  private readonly ids = new Map<string, string>()
+  private readonly replacements: [RegExp, string][]
+
+  constructor(private readonly rules: RedactionRules) {
+    this.replacements = rules.replacements.map(({ pattern, replacement }) => {
+      try {
+        return [new RegExp(pattern, 'g'), replacement]
+      } catch {
+        throw new TranscriptImportError(`Replacement pattern ${pattern} is not a valid regular expression`)
+      }
+    })
+  }
+
+  text(value: string): string {
+    let text = value
+    if (this.rules.ids) {
+      text = text.replace(CONTEXT_ID, id => {
+        if (!this.ids.has(id)) this.ids.set(id, `ctx_redacted_${this.ids.size + 1}`)
+        return this.ids.get(id)!
+      })
+    }
+    for (const [pattern, replacement] of this.replacements) {
+      text = text.replace(pattern, replacement)
+    }
+    return text
+  }
+
+  value(value: unknown, key?: string): unknown {
+    if (typeof value === 'string') {
+      return key !== undefined && this.rules.fields.includes(key) ? REDACTED : this.text(value)
+    }
+    if (Array.isArray(value)) return value.map(item => this.value(item, key))
+    if (isFields(value)) {
+      return Object.fromEntries(Object.entries(value).map(([name, field]) => [name, this.value(field, name)]))
+    }
+    return value
+  }
+
+  /** Tool output is usually text; JSON output also gets field redaction. */
+  output(text: string): string {
+    if (/^\s*[[{]/.test(text)) {
+      try {
+        return JSON.stringify(this.value(JSON.parse(text)), null, 2)
+      } catch {
+        // Not JSON after all
+      }
+    }
+    return this.text(text)
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseEntries(source: string): unknown[] {
+  const trimmed = source.trim()
+  if (!trimmed) throw new TranscriptImportError('The transcript is empty')
+
+  try {
+    const parsed: unknown = JSON.parse(trimmed)
+    return Array.isArray(parsed) ? parsed : [parsed]
+  } catch {
+    // Not a single JSON value; read it as JSON Lines
+  }
+
+  return trimmed.split('\n').flatMap((line, index) => {
+    if (!line.trim()) return []
+    try {
+      return [JSON.parse(line) as unknown]
+    } catch {
+      throw new TranscriptImportError(`Line ${index + 1} is not valid JSON`)
+    }
+  })
+}
+
+/** Strip client prefixes such as `mcp__wakeiqx__` or `wakeiqx:` from a tool name. */
+function toolName(name: unknown): ToolName | null {
+  if (typeof name !== 'string') return null
+  const bare = name.split(/__|[:/]/).pop()
+  return toolDefinitions.find(tool => tool.name === bare)?.name ?? null
+}
+
+/** Join the text blocks of MCP or Anthropic tool result content. */
+function contentText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content
+    .filter((block): block is { type: 'text'; text: string } => isFields(block) && block.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text)
+    .join('\n\n')
+}
+
+function resultMessage(redactor: Redactor, text: string, isError: boolean): ResultMessage {
+  return { result: null, recorded: redactor.output(text), ...(isError && { isError: true }) }
+}
+
+function callItem(redactor: Redactor, name: ToolName, args: unknown): CallItem {
+  // Recorded params are checked against the schema when the document is validated
+  const params = redactor.value(isFields(args) ? args : {}) as ToolParams<ToolName>
+  return { call: { tool: name, params } as ScenarioDocumentToolCall }
+}
+
+function isJsonRpc(entry: unknown): entry is Fields {
+  return isFields(entry) && entry.jsonrpc === '2.0'
+}
+
+function importJsonRpc(entries: unknown[], redactor: Redactor, warnings: string[]): Item[] {
+  const items: Item[] = []
+  const calls = new Map<unknown, CallItem>()
+
+  // Logs often wrap each message, e.g. { direction, message }; batches are arrays
+  const messages = entries
+    .flatMap(entry => Array.isArray(entry) ? entry : [entry])
+    .map(entry => isFields(entry) && isJsonRpc(entry.message) ? entry.message : entry)
+    .filter(isJsonRpc)
+
+  for (const message of messages) {
+    if (message.method === 'tools/call') {
+      const params = isFields(message.params) ? message.params : {}
+      const name = toolName(params.name)
+      if (!name) {
+        warnings.push(`Skipped request ${String(message.id)}: ${String(params.name)} is not a WakeIQX tool`)
+        continue
+      }
+      const item = callItem(redactor, name, params.arguments)
+      calls.set(message.id, item)
+      items.push(item)
+    } else if (message.method === undefined && calls.has(message.id)) {
+      const item = calls.get(message.id)!
+      if (isFields(message.error)) {
+        item.result = resultMessage(redactor, String(message.error.message ?? 'Unknown error'), true)
+      } else if (isFields(message.result)) {
+        item.result = resultMessage(redactor, contentText(message.result.content), message.result.isError === true)
+      }
+    }
+  }
+
+  for (const [id, item] of calls) {
+    if (!item.result) warnings.push(`Request ${String(id)} (${item.call.tool}) has no response`)
+  }
+  return items
+}
+
+function importConversation(entries: unknown[], redactor: Redactor, warnings: string[]): Item[] {
+  const items: Item[] = []
+  const calls = new Map<unknown, CallItem>()
+
+  entries.forEach((entry, index) => {
+    if (!isFields(entry)) return
+    const speaker = entry.role ?? entry.sender
+    const role = speaker === 'user' || speaker === 'human' ? 'user' : speaker === 'assistant' ? 'assistant' : null
+    if (!role) {
+      warnings.push(`Skipped message ${index + 1}: unknown role ${String(speaker)}`)
+      return
+    }
+
+    // Claude.ai exports carry both `text` and `content`; prefer the blocks
+    const blocks = Array.isArray(entry.content) ? entry.content : [{ type: 'text', text: entry.content ?? entry.text }]
+    let text = ''
+    const flush = () => {
+      if (text.trim()) items.push({ [role]: redactor.text(text.trim()) } as ScenarioDocumentMessage)
+      text = ''
+    }
+
+    for (const block of blocks) {
+      if (!isFields(block)) continue
+      if (block.type === 'text' && typeof block.text === 'string') {
+        text += `${text ? '\n\n' : ''}${block.text}`
+      } else if (block.type === 'tool_use') {
+        flush()
+        const name = toolName(block.name)
+        if (!name) {
+          warnings.push(`Skipped tool call in message ${index + 1}: ${String(block.name)} is not a WakeIQX tool`)
+          continue
+        }
+        const item = callItem(redactor, name, block.input)
+        calls.set(block.id, item)
+        items.push(item)
+      } else if (block.type === 'tool_result') {
+        flush()
+        const item = calls.get(block.tool_use_id)
+        if (item) item.result = resultMessage(redactor, contentText(block.content), block.is_error === true)
+      }
+    }
+    flush()
+  })
+
+  for (const item of calls.values()) {
+    if (!item.result) warnings.push(`The ${item.call.tool} call has no result`)
+  }
+  return items
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function detectFormat(entries: unknown[]): { format: TranscriptFormat; entries: unknown[] } {
+  if (entries.length === 1 && isFields(entries[0])) {
+    const [conversation] = entries
+    const messages = conversation.chat_messages ?? conversation.messages
+    if (Array.isArray(messages)) return { format: 'conversation', entries: messages }
+  }
+  if (entries.some(entry => isJsonRpc(entry) || Array.isArray(entry) || (isFields(entry) && isJsonRpc(entry.message)))) {
+    return { format: 'json-rpc', entries }
+  }
+  if (entries.some(entry => isFields(entry) && (entry.role !== undefined || entry.sender !== undefined))) {
+    return { format: 'conversation', entries }
+  }
+  throw new TranscriptImportError('Not an MCP JSON-RPC transcript or a conversation export')
+}
+
+/**
+ * Convert a transcript to a scenario document. `details` overrides the
+ * title, icon, description and category of the resulting scenario.
+ */
+export function importTranscript(
+  source: string,
+  rules: RedactionRules = defaultRedactionRules(),
+  details: Partial<Pick<ScenarioDocument, 'title' | 'icon' | 'description' | 'category'>> = {}
+): TranscriptImport {
+  const { format, entries } = detectFormat(parseEntries(source))
+  const redactor = new Redactor(rules)
+  const warnings: string[] = []
+
+  const items = format === 'json-rpc'
+    ? importJsonRpc(entries, redactor, warnings)
+    : importConversation(entries, redactor, warnings)
+
+  const messages = items.flatMap((item): ScenarioDocumentMessage[] => {
+    if (!('call' in item)) return [item]
+    return item.result ? [item.call, item.result] : [item.call]
+  })
+  if (!messages.length) throw new TranscriptImportError('The transcript has no messages or WakeIQX tool calls')
+
+  return {
+    format,
+    document: {
+      title: 'Recorded Session',
+      icon: '📼',
+      description: 'A real WakeIQX session, recorded from an MCP client',
+      category: 'Recorded Session',
+      ...details,
+      messages
+    },
+    warnings
+  }
+}
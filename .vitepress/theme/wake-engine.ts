@@ -0,0 +1,814 @@
+/**
+ * In-browser WakeIQX engine for the playground.
+ *
+ * Mirrors the domain services documented in the API reference
+ * (CausalityService, MemoryManagerService, PropagationService) on top of an
+ * in-memory repository, so playground tool results are computed by the same
+ * algorithms the docs describe instead of being written by hand.
+ */
+
+import type { ToolName, ToolParams, ToolResult } from './tool-types'
+
+// ============================================================================
+// Domain model
+// ============================================================================
+
+export type MemoryTier = 'ACTIVE' | 'RECENT' | 'ARCHIVED' | 'EXPIRED'
+
+export const ACTION_TYPES = ['conversation', 'decision', 'file_edit', 'tool_use', 'research'] as const
+
+export type ActionType = typeof ACTION_TYPES[number]
+
+export interface IContextSnapshot {
+  id: string
+  project: string
+  content: string
+  summary: string
+  tags: string
+  source: string
+  timestamp: Date
+  metadata?: Record<string, unknown>
+
+  // Layer 1: Causality (Past - WHY)
+  causality?: {
+    actionType: ActionType
+    causedBy: string | null
+    rationale: string
+    dependencies: string[]
+  }
+
+  // Layer 2: Memory (Present - HOW)
+  memory?: {
+    tier: MemoryTier
+    lastAccessed: Date | null
+    accessCount: number
+  }
+
+  // Layer 3: Propagation (Future - WHAT)
+  propagation?: {
+    predictionScore: number
+    lastPredicted: Date | null
+    predictedNextAccess: Date | null
+    propagationReason: string[]
+  }
+}
+
+export interface CausalChainNode {
+  snapshot: IContextSnapshot
+  causedBy: CausalChainNode | null
+  children: CausalChainNode[]
+  depth: number // Distance from root (0 = root)
+}
+
+export interface MemoryStats {
+  total: number
+  active: number
+  recent: number
+  archived: number
+  expired: number
+}
+
+/**
+ * JSON-friendly description of a stored snapshot, used to seed the engine.
+ * Dates are ISO 8601 strings; omitted layers fall back to the defaults a
+ * freshly saved context would have.
+ */
+export interface ContextSeed {
+  id: string
+  project: string
+  summary: string
+  content?: string
+  tags?: string
+  source?: string
+  timestamp: string
+  actionType?: ActionType
+  causedBy?: string | null
+  rationale?: string
+  dependencies?: string[]
+  lastAccessed?: string | null
+  accessCount?: number
+}
+
+const HOUR_MS = 1000 * 60 * 60
+
+/** Hours since last access after which a context drops out of each tier. */
+export const MEMORY_TIER_HOURS = {
+  ACTIVE: 1,
+  RECENT: 24,
+  ARCHIVED: 24 * 30
+} as const
+
+function hoursBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / HOUR_MS
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000
+}
+
+// ============================================================================
+// Repository
+// ============================================================================
+
+export class InMemoryContextRepository {
+  private readonly snapshots = new Map<string, IContextSnapshot>()
+  // Child IDs by parent, like the server's caused_by index; scoring a project
+  // looks up every context's children
+  private readonly children = new Map<string, Set<string>>()
+
+  constructor(snapshots: IContextSnapshot[] = []) {
+    for (const snapshot of snapshots) {
+      this.save(snapshot)
+    }
+  }
+
+  save(snapshot: IContextSnapshot): void {
+    this.unlinkParent(snapshot.id)
+    this.snapshots.set(snapshot.id, snapshot)
+
+    const parent = snapshot.causality?.causedBy
+    if (!parent) return
+    const siblings = this.children.get(parent) ?? new Set<string>()
+    this.children.set(parent, siblings.add(snapshot.id))
+  }
+
+  delete(id: string): boolean {
+    this.unlinkParent(id)
+    return this.snapshots.delete(id)
+  }
+
+  findById(id: string): IContextSnapshot | null {
+    return this.snapshots.get(id) ?? null
+  }
+
+  /** Contexts for a project, most recent first. */
+  findByProject(project: string, limit?: number): IContextSnapshot[] {
+    const matches = [...this.snapshots.values()]
+      .filter(snapshot => snapshot.project === project)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    return limit === undefined ? matches : matches.slice(0, limit)
+  }
+
+  findAll(): IContextSnapshot[] {
+    return [...this.snapshots.values()]
+  }
+
+  findChildren(id: string): IContextSnapshot[] {
+    return [...this.children.get(id) ?? []].map(childId => this.snapshots.get(childId)!)
+  }
+
+  private unlinkParent(id: string): void {
+    const parent = this.snapshots.get(id)?.causality?.causedBy
+    if (parent) this.children.get(parent)?.delete(id)
+  }
+}
+
+// ============================================================================
+// Layer 1: Causality Engine (Past - WHY)
+// ============================================================================
+
+export class CausalityService {
+  constructor(private readonly repository: InMemoryContextRepository) {}
+
+  /**
+   * Trace decision history backwards from a context to its root cause.
+   * Returns the chain with the root at index 0. Stops at missing parents
+   * and at cycles.
+   */
+  buildCausalChain(snapshotId: string): CausalChainNode[] {
+    const target = this.repository.findById(snapshotId)
+    if (!target) {
+      throw new Error(`Context not found: ${snapshotId}`)
+    }
+
+    const snapshots: IContextSnapshot[] = []
+    const visited = new Set<string>()
+    let current: IContextSnapshot | null = target
+
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id)
+      snapshots.unshift(current)
+      const parentId: string | null = current.causality?.causedBy ?? null
+      current = parentId ? this.repository.findById(parentId) : null
+    }
+
+    const chain: CausalChainNode[] = []
+    snapshots.forEach((snapshot, depth) => {
+      const parent = chain[depth - 1] ?? null
+      const node: CausalChainNode = { snapshot, causedBy: parent, children: [], depth }
+      parent?.children.push(node)
+      chain.push(node)
+    })
+    return chain
+  }
+
+  /** Human-readable explanation in the documented markdown format. */
+  reconstructReasoning(snapshotId: string): string {
+    const snapshot = this.repository.findById(snapshotId)
+    if (!snapshot) {
+      throw new Error(`Context not found: ${snapshotId}`)
+    }
+    if (!snapshot.causality) {
+      return `**Context Summary**: ${snapshot.summary}`
+    }
+
+    return [
+      `**Action Type**: ${snapshot.causality.actionType}`,
+      `**Rationale**: ${snapshot.causality.rationale || 'No rationale provided'}`,
+      `**Context Summary**: ${snapshot.summary}`
+    ].join('\n\n')
+  }
+}
+
+// ============================================================================
+// Layer 2: Memory Manager (Present - HOW)
+// ============================================================================
+
+export class MemoryManagerService {
+  constructor(
+    private readonly repository: InMemoryContextRepository,
+    private readonly clock: () => Date
+  ) {}
+
+  calculateMemoryTier(lastAccessed: Date, now: Date): MemoryTier {
+    const hoursSinceAccess = hoursBetween(lastAccessed, now)
+
+    if (hoursSinceAccess < MEMORY_TIER_HOURS.ACTIVE) return 'ACTIVE'
+    if (hoursSinceAccess < MEMORY_TIER_HOURS.RECENT) return 'RECENT'
+    if (hoursSinceAccess < MEMORY_TIER_HOURS.ARCHIVED) return 'ARCHIVED'
+    return 'EXPIRED'
+  }
+
+  getMemoryStats(project: string): MemoryStats {
+    const contexts = this.repository.findByProject(project, 1000)
+    const stats: MemoryStats = { total: contexts.length, active: 0, recent: 0, archived: 0, expired: 0 }
+
+    for (const context of contexts) {
+      switch (context.memory?.tier) {
+        case 'ACTIVE': stats.active++; break
+        case 'RECENT': stats.recent++; break
+        case 'ARCHIVED': stats.archived++; break
+        case 'EXPIRED': stats.expired++; break
+      }
+    }
+
+    return stats
+  }
+
+  /** Record a load: bump `lastAccessed`/`accessCount` and promote the tier. */
+  trackAccess(snapshotId: string): void {
+    const snapshot = this.repository.findById(snapshotId)
+    if (!snapshot) return
+
+    const now = this.clock()
+    snapshot.memory = {
+      tier: this.calculateMemoryTier(now, now),
+      lastAccessed: now,
+      accessCount: (snapshot.memory?.accessCount ?? 0) + 1
+    }
+  }
+
+  /**
+   * EXPIRED contexts in the order `pruneExpiredContexts` deletes them: least
+   * recently accessed first, never-accessed ones before all others.
+   */
+  findPruneCandidates(limit?: number): IContextSnapshot[] {
+    const lastAccessed = (context: IContextSnapshot) => context.memory?.lastAccessed?.getTime() ?? -Infinity
+    const candidates = this.repository.findAll()
+      .filter(context => context.memory?.tier === 'EXPIRED')
+      .sort((a, b) => lastAccessed(a) - lastAccessed(b))
+    return limit === undefined ? candidates : candidates.slice(0, limit)
+  }
+
+  /**
+   * Delete expired contexts. Like the server, this leaves `causedBy` and
+   * `dependencies` pointing at deleted IDs. Returns the number deleted.
+   */
+  pruneExpiredContexts(limit?: number): number {
+    return this.findPruneCandidates(limit).filter(context => this.repository.delete(context.id)).length
+  }
+
+  /** Recalculate tiers from the current clock. Returns the number of contexts changed. */
+  recalculateAllTiers(project?: string): number {
+    const now = this.clock()
+    const contexts = project ? this.repository.findByProject(project) : this.repository.findAll()
+    let updated = 0
+
+    for (const context of contexts) {
+      // Never-loaded contexts age from their creation time
+      const lastAccessed = context.memory?.lastAccessed ?? context.timestamp
+      const tier = this.calculateMemoryTier(lastAccessed, now)
+      if (tier !== context.memory?.tier) {
+        context.memory = {
+          tier,
+          lastAccessed: context.memory?.lastAccessed ?? null,
+          accessCount: context.memory?.accessCount ?? 0
+        }
+        updated++
+      }
+    }
+
+    return updated
+  }
+}
+
+// ============================================================================
+// Layer 3: Propagation Engine (Future - WHAT)
+// ============================================================================
+
+export interface ScoreBreakdown {
+  temporal: number
+  causal: number
+  frequency: number
+}
+
+export const PREDICTION_WEIGHTS: ScoreBreakdown = {
+  temporal: 0.4,
+  causal: 0.3,
+  frequency: 0.3
+}
+
+export interface PredictionConfig {
+  weights: ScoreBreakdown
+  /** Added to the weighted score by memory tier, before clamping to 0-1. */
+  tierAdjustments: Record<MemoryTier, number>
+}
+
+/** The documented prediction algorithm: weighted factors, no tier adjustment. */
+export const DEFAULT_PREDICTION_CONFIG: PredictionConfig = {
+  weights: PREDICTION_WEIGHTS,
+  tierAdjustments: { ACTIVE: 0, RECENT: 0, ARCHIVED: 0, EXPIRED: 0 }
+}
+
+/** Tier boosts and penalty described under "Integration with Other Layers". */
+export const DOCUMENTED_TIER_ADJUSTMENTS: Record<MemoryTier, number> = {
+  ACTIVE: 0.3,
+  RECENT: 0.1,
+  ARCHIVED: 0,
+  EXPIRED: -0.2
+}
+
+/** How each factor contributed to a context's prediction score. */
+export interface PredictionScoreDetail {
+  factors: ScoreBreakdown
+  contributions: ScoreBreakdown
+  tierAdjustment: number
+  score: number
+}
+
+export class PropagationService {
+  constructor(
+    private readonly repository: InMemoryContextRepository,
+    private readonly clock: () => Date,
+    private readonly config: PredictionConfig = DEFAULT_PREDICTION_CONFIG
+  ) {}
+
+  calculateTemporalScore(context: IContextSnapshot): number {
+    const lastAccessed = context.memory?.lastAccessed ?? context.timestamp
+    const hoursSinceAccess = hoursBetween(lastAccessed, this.clock())
+
+    if (hoursSinceAccess < 1) return 1.0
+    if (hoursSinceAccess < 6) return 0.8
+    if (hoursSinceAccess < 24) return 0.5
+    if (hoursSinceAccess < 168) return 0.3
+    return 0.1
+  }
+
+  calculateCausalScore(context: IContextSnapshot): number {
+    const children = this.repository.findChildren(context.id)
+
+    if (context.causality?.causedBy === null) return 1.0
+    if (children.length > 1) return 0.8
+    if (context.causality?.actionType === 'decision') return 0.9
+    if (children.length === 0) return 0.3
+    return 0.5
+  }
+
+  calculateFrequencyScore(context: IContextSnapshot): number {
+    const accessCount = context.memory?.accessCount ?? 0
+
+    if (accessCount >= 10) return 1.0
+    if (accessCount >= 5) return 0.7
+    if (accessCount >= 2) return 0.4
+    return 0.2
+  }
+
+  calculatePredictionScore(context: IContextSnapshot): number {
+    return this.explainPredictionScore(context).score
+  }
+
+  explainPredictionScore(context: IContextSnapshot): PredictionScoreDetail {
+    const { weights, tierAdjustments } = this.config
+    const factors: ScoreBreakdown = {
+      temporal: this.calculateTemporalScore(context),
+      causal: this.calculateCausalScore(context),
+      frequency: this.calculateFrequencyScore(context)
+    }
+    const contributions: ScoreBreakdown = {
+      temporal: factors.temporal * weights.temporal,
+      causal: factors.causal * weights.causal,
+      frequency: factors.frequency * weights.frequency
+    }
+    const tierAdjustment = context.memory ? tierAdjustments[context.memory.tier] : 0
+    const score = contributions.temporal + contributions.causal + contributions.frequency + tierAdjustment
+
+    return { factors, contributions, tierAdjustment, score: round(Math.min(1, Math.max(0, score))) }
+  }
+
+  calculatePropagationReasons(context: IContextSnapshot): string[] {
+    const reasons: string[] = []
+    const lastAccessed = context.memory?.lastAccessed ?? context.timestamp
+    const accessCount = context.memory?.accessCount ?? 0
+
+    if (hoursBetween(lastAccessed, this.clock()) < 24) reasons.push('recently_accessed')
+    if (context.causality?.causedBy === null) reasons.push('causal_chain_root')
+    if (accessCount >= 10) reasons.push('high_access_frequency')
+    else if (accessCount >= 5) reasons.push('moderate_access_frequency')
+    if (context.memory?.tier === 'ACTIVE') reasons.push('active_memory_tier')
+    if (context.causality?.actionType === 'decision') reasons.push('decision_node')
+
+    return reasons
+  }
+
+  /** Refresh predictions older than `staleThreshold` hours. Returns the number updated. */
+  updateProjectPredictions(project: string, staleThreshold = 24): number {
+    const now = this.clock()
+    let updated = 0
+
+    for (const context of this.repository.findByProject(project)) {
+      const lastPredicted = context.propagation?.lastPredicted ?? null
+      if (lastPredicted && hoursBetween(lastPredicted, now) < staleThreshold) continue
+
+      context.propagation = {
+        predictionScore: this.calculatePredictionScore(context),
+        lastPredicted: now,
+        predictedNextAccess: null,
+        propagationReason: this.calculatePropagationReasons(context)
+      }
+      updated++
+    }
+
+    return updated
+  }
+
+  getHighValueContexts(project: string, minScore = 0.6, limit = 5): IContextSnapshot[] {
+    return this.repository.findByProject(project)
+      .filter(context => (context.propagation?.predictionScore ?? 0) >= minScore)
+      .sort((a, b) => (b.propagation?.predictionScore ?? 0) - (a.propagation?.predictionScore ?? 0))
+      .slice(0, limit)
+  }
+}
+
+// ============================================================================
+// MCP tools
+// ============================================================================
+
+function toISO(date: Date | null | undefined): string | null {
+  return date ? date.toISOString() : null
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'because', 'but', 'by', 'for', 'from', 'has', 'have',
+  'in', 'instead', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'this',
+  'to', 'use', 'we', 'with', 'without'
+])
+
+function significantWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+}
+
+/** Stand-in for the Workers AI summary: the first sentence of the content. */
+function summarize(content: string): string {
+  const firstSentence = content.trim().split(/(?<=[.!?])\s/)[0]
+  return firstSentence.replace(/[.!?]$/, '')
+}
+
+/** Stand-in for Workers AI tag extraction: the first five distinct keywords. */
+function extractTags(content: string): string {
+  return [...new Set(significantWords(content))].slice(0, 5).join(', ')
+}
+
+/** What `pruneExpiredContexts(limit)` would do to the store, worked out without deleting anything. */
+export interface PruneImpact {
+  /** Contexts that would be deleted, in deletion order. */
+  deleted: IContextSnapshot[]
+  /** Surviving contexts left pointing at a deleted parent or dependency. */
+  orphans: { context: IContextSnapshot; lostParent: string | null; lostDependencies: string[] }[]
+  /** Surviving contexts whose causal chain would end at a different root. */
+  rootChanges: { context: IContextSnapshot; before: IContextSnapshot; after: IContextSnapshot }[]
+  /** Surviving contexts whose prediction score would change at the next update. */
+  scoreChanges: { context: IContextSnapshot; before: number; after: number }[]
+}
+
+/**
+ * WakeIQX engine: an in-memory repository, the three layer services and the
+ * MCP tool surface on top of them. Every tool call runs against the same
+ * store, so a scenario's `save_context` is visible to the calls after it.
+ */
+export class WakeEngine {
+  readonly repository: InMemoryContextRepository
+  readonly causality: CausalityService
+  readonly memory: MemoryManagerService
+  readonly propagation: PropagationService
+
+  /** An engine over a store as it was saved, tiers and scores untouched. */
+  constructor(snapshots: IContextSnapshot[], private now: Date) {
+    const clock = () => this.now
+    this.repository = new InMemoryContextRepository(snapshots)
+    this.causality = new CausalityService(this.repository)
+    this.memory = new MemoryManagerService(this.repository, clock)
+    this.propagation = new PropagationService(this.repository, clock)
+  }
+
+  static fromSeeds(seeds: ContextSeed[], now: Date): WakeEngine {
+    const snapshots = seeds.map(seedToSnapshot)
+    const engine = new WakeEngine(snapshots, now)
+
+    // Seeded stores reflect a project after its scheduled maintenance ran
+    engine.memory.recalculateAllTiers()
+    for (const project of new Set(snapshots.map(snapshot => snapshot.project))) {
+      engine.propagation.updateProjectPredictions(project)
+    }
+    return engine
+  }
+
+  get currentTime(): Date {
+    return this.now
+  }
+
+  /**
+   * Move the engine's clock and rerun tier maintenance, as the scheduled job
+   * would at that time. Returns the number of contexts whose tier changed.
+   */
+  setTime(now: Date): number {
+    this.now = now
+    return this.memory.recalculateAllTiers()
+  }
+
+  /** Dispatch an MCP tool call by name. Throws on unknown tools or missing contexts. */
+  invoke<N extends ToolName>(toolName: N, params: ToolParams<N>): ToolResult<N> {
+    const handlers: { [K in ToolName]: (params: ToolParams<K>) => ToolResult<K> } = {
+      save_context: params => this.saveContext(params),
+      load_context: params => this.loadContext(params),
+      search_context: params => this.searchContext(params),
+      reconstruct_reasoning: params => this.reconstructReasoning(params),
+      build_causal_chain: params => this.buildCausalChain(params),
+      get_memory_stats: params => this.getMemoryStats(params),
+      update_predictions: params => this.updatePredictions(params),
+      get_high_value_contexts: params => this.getHighValueContexts(params)
+    }
+
+    if (!Object.hasOwn(handlers, toolName)) {
+      throw new Error(`Unknown tool: ${toolName}`)
+    }
+    return handlers[toolName](params)
+  }
+
+  saveContext(params: ToolParams<'save_context'>): ToolResult<'save_context'> {
+    const { actionType, causedBy, rationale, dependencies, ...metadata } = params.metadata ?? {}
+    const summary = summarize(params.content)
+    const snapshot: IContextSnapshot = {
+      id: this.nextId(summary),
+      project: params.project,
+      content: params.content,
+      summary,
+      tags: extractTags(params.content),
+      source: params.source ?? 'mcp',
+      timestamp: this.now,
+      metadata,
+      causality: {
+        actionType: actionType ?? 'conversation',
+        causedBy: causedBy ?? null,
+        rationale: rationale ?? '',
+        dependencies: dependencies ?? []
+      },
+      memory: { tier: 'ACTIVE', lastAccessed: null, accessCount: 0 },
+      propagation: { predictionScore: 0, lastPredicted: null, predictedNextAccess: null, propagationReason: [] }
+    }
+    this.repository.save(snapshot)
+
+    return {
+      id: snapshot.id,
+      project: snapshot.project,
+      summary: snapshot.summary,
+      tags: snapshot.tags,
+      timestamp: snapshot.timestamp.toISOString(),
+      memoryTier: snapshot.memory!.tier,
+      causality: snapshot.causality!,
+      propagation: {
+        predictionScore: snapshot.propagation!.predictionScore,
+        lastPredicted: toISO(snapshot.propagation!.lastPredicted)
+      }
+    }
+  }
+
+  loadContext(params: ToolParams<'load_context'>): ToolResult<'load_context'> {
+    const contexts = this.repository.findByProject(params.project, params.limit ?? 1)
+    for (const context of contexts) {
+      this.memory.trackAccess(context.id)
+    }
+
+    return {
+      project: params.project,
+      contexts: contexts.map(context => ({
+        id: context.id,
+        summary: context.summary,
+        tags: context.tags,
+        timestamp: context.timestamp.toISOString(),
+        memoryTier: context.memory!.tier,
+        lastAccessed: toISO(context.memory!.lastAccessed),
+        accessCount: context.memory!.accessCount
+      }))
+    }
+  }
+
+  searchContext(params: ToolParams<'search_context'>): ToolResult<'search_context'> {
+    const terms = params.query.toLowerCase().split(/\s+/).filter(Boolean)
+    const candidates = params.project
+      ? this.repository.findByProject(params.project)
+      : this.repository.findAll().sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+
+    const results = candidates
+      .map(context => {
+        const haystack = `${context.summary} ${context.tags} ${context.project}`.toLowerCase()
+        return { context, hits: terms.filter(term => haystack.includes(term)).length }
+      })
+      .filter(match => match.hits > 0)
+      .sort((a, b) => b.hits - a.hits)
+      .map(({ context }) => ({
+        id: context.id,
+        summary: context.summary,
+        timestamp: context.timestamp.toISOString(),
+        memoryTier: context.memory?.tier ?? 'ACTIVE',
+        predictionScore: context.propagation?.predictionScore ?? 0,
+        causedBy: context.causality?.causedBy ?? null,
+        actionType: context.causality?.actionType ?? 'conversation',
+        dependencies: context.causality?.dependencies ?? []
+      }))
+
+    return {
+      results,
+      totalFound: results.length,
+      searchQuery: params.query,
+      project: params.project ?? null
+    }
+  }
+
+  reconstructReasoning(params: ToolParams<'reconstruct_reasoning'>): ToolResult<'reconstruct_reasoning'> {
+    const explanation = this.causality.reconstructReasoning(params.snapshotId)
+    const snapshot = this.repository.findById(params.snapshotId)!
+    const parentId = snapshot.causality?.causedBy ?? null
+    const parent = parentId ? this.repository.findById(parentId) : null
+
+    return {
+      snapshot: {
+        id: snapshot.id,
+        summary: snapshot.summary,
+        timestamp: snapshot.timestamp.toISOString()
+      },
+      reasoning: {
+        actionType: snapshot.causality?.actionType ?? null,
+        rationale: snapshot.causality?.rationale || null,
+        causedBy: parent
+          ? { id: parent.id, summary: parent.summary, timestamp: parent.timestamp.toISOString() }
+          : null
+      },
+      explanation
+    }
+  }
+
+  buildCausalChain(params: ToolParams<'build_causal_chain'>): ToolResult<'build_causal_chain'> {
+    const chain = this.causality.buildCausalChain(params.snapshotId)
+    const root = chain[0].snapshot
+
+    return {
+      chain: chain.map(({ snapshot, depth }) => ({
+        id: snapshot.id,
+        summary: snapshot.summary,
+        timestamp: snapshot.timestamp.toISOString(),
+        causedBy: snapshot.causality?.causedBy ?? null,
+        actionType: snapshot.causality?.actionType ?? 'conversation',
+        dependencies: snapshot.causality?.dependencies ?? [],
+        memoryTier: snapshot.memory?.tier ?? 'ACTIVE',
+        depth
+      })),
+      totalDepth: chain.length - 1,
+      rootCause: { id: root.id, summary: root.summary }
+    }
+  }
+
+  getMemoryStats(params: ToolParams<'get_memory_stats'>): ToolResult<'get_memory_stats'> {
+    const contexts = this.repository.findByProject(params.project)
+    const stats = this.memory.getMemoryStats(params.project)
+
+    return {
+      project: params.project,
+      ...stats,
+      oldestContext: toISO(contexts[contexts.length - 1]?.timestamp),
+      newestContext: toISO(contexts[0]?.timestamp)
+    }
+  }
+
+  updatePredictions(params: ToolParams<'update_predictions'>): ToolResult<'update_predictions'> {
+    const staleThreshold = params.staleThreshold ?? 24
+    const updated = this.propagation.updateProjectPredictions(params.project, staleThreshold)
+
+    return { project: params.project, updated, staleThreshold }
+  }
+
+  getHighValueContexts(params: ToolParams<'get_high_value_contexts'>): ToolResult<'get_high_value_contexts'> {
+    const contexts = this.propagation.getHighValueContexts(params.project, params.minScore, params.limit)
+
+    return {
+      contexts: contexts.map(context => ({
+        id: context.id,
+        summary: context.summary,
+        predictionScore: context.propagation!.predictionScore,
+        propagationReason: context.propagation!.propagationReason,
+        lastAccessed: toISO(context.memory?.lastAccessed),
+        memoryTier: context.memory?.tier ?? 'ACTIVE',
+        causalDepth: this.causality.buildCausalChain(context.id).length - 1,
+        accessCount: context.memory?.accessCount ?? 0
+      })),
+      totalEvaluated: this.repository.findByProject(params.project).length,
+      scoreBreakdown: { ...PREDICTION_WEIGHTS }
+    }
+  }
+
+  /**
+   * Dry-run `pruneExpiredContexts(limit)`: which contexts go, and what that
+   * breaks in the causal graph and prediction scores of the ones that stay.
+   */
+  previewPrune(limit?: number): PruneImpact {
+    const deleted = this.memory.findPruneCandidates(limit)
+    const deletedIds = new Set(deleted.map(context => context.id))
+    const survivors = this.repository.findAll().filter(context => !deletedIds.has(context.id))
+
+    // The same snapshots in a store without the deleted ones; nothing is modified
+    const pruned = new InMemoryContextRepository(survivors)
+    const prunedCausality = new CausalityService(pruned)
+    const prunedPropagation = new PropagationService(pruned, () => this.now)
+    const rootOf = (causality: CausalityService, id: string) => causality.buildCausalChain(id)[0].snapshot
+
+    const impact: PruneImpact = { deleted, orphans: [], rootChanges: [], scoreChanges: [] }
+    for (const context of survivors) {
+      const parent = context.causality?.causedBy ?? null
+      const lostParent = parent && deletedIds.has(parent) ? parent : null
+      const lostDependencies = (context.causality?.dependencies ?? []).filter(id => deletedIds.has(id))
+      if (lostParent || lostDependencies.length) impact.orphans.push({ context, lostParent, lostDependencies })
+
+      const rootBefore = rootOf(this.causality, context.id)
+      const rootAfter = rootOf(prunedCausality, context.id)
+      if (rootBefore !== rootAfter) impact.rootChanges.push({ context, before: rootBefore, after: rootAfter })
+
+      const scoreBefore = this.propagation.calculatePredictionScore(context)
+      const scoreAfter = prunedPropagation.calculatePredictionScore(context)
+      if (scoreBefore !== scoreAfter) impact.scoreChanges.push({ context, before: scoreBefore, after: scoreAfter })
+    }
+    return impact
+  }
+
+  /** Readable, deterministic IDs so scenarios can reference saved contexts. */
+  private nextId(summary: string): string {
+    const base = `ctx_${significantWords(summary).slice(0, 4).join('_')}`
+    let id = base
+    for (let n = 2; this.repository.findById(id); n++) {
+      id = `${base}_${n}`
+    }
+    return id
+  }
+}
+
+function seedToSnapshot(seed: ContextSeed): IContextSnapshot {
+  const lastAccessed = seed.lastAccessed ? new Date(seed.lastAccessed) : null
+
+  return {
+    id: seed.id,
+    project: seed.project,
+    content: seed.content ?? seed.summary,
+    summary: seed.summary,
+    tags: seed.tags ?? extractTags(seed.summary),
+    source: seed.source ?? 'mcp',
+    timestamp: new Date(seed.timestamp),
+    causality: {
+      actionType: seed.actionType ?? 'conversation',
+      causedBy: seed.causedBy ?? null,
+      rationale: seed.rationale ?? '',
+      dependencies: seed.dependencies ?? []
+    },
+    memory: {
+      tier: 'ACTIVE',
+      lastAccessed,
+      accessCount: seed.accessCount ?? 0
+    },
+    propagation: {
+      predictionScore: 0,
+      lastPredicted: null,
+      predictedNextAccess: null,
+      propagationReason: []
+    }
+  }
+}
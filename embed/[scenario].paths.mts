@@ -0,0 +1,21 @@
+/// <reference types="node" />
+/**
+ * The embeddable playground's pages: `/embed/<scenario ID>` for each file in
+ * `playground/`, and `/embed/host` for a scenario sent by the page that
+ * frames it (see `.vitepress/theme/embed-protocol.ts`).
+ */
+
+import { readdirSync } from 'node:fs'
+import { HOST_SCENARIO_ID } from '../.vitepress/theme/embed-protocol'
+
+export default {
+  paths() {
+    const ids = readdirSync(new URL('../playground/', import.meta.url))
+      .filter(file => file.endsWith('.yaml'))
+      .map(file => file.slice(0, -'.yaml'.length))
+    if (ids.includes(HOST_SCENARIO_ID)) {
+      throw new Error(`playground/${HOST_SCENARIO_ID}.yaml: the ID "${HOST_SCENARIO_ID}" is reserved for the embed page that plays the host page's scenario`)
+    }
+    return [...ids, HOST_SCENARIO_ID].map(scenario => ({ params: { scenario } }))
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * `<wakeiqx-playground>`: the WakeIQX playground on other sites. The element
+ * frames `/embed/<scenario>` from the site this script is loaded from:
+ *
+ *   <script src="https://wakeiqx.com/embed.js" defer></script>
+ *   <wakeiqx-playground scenario="causal-chain" step="3" theme="dark" autoplay></wakeiqx-playground>
+ *
+ * Attributes:
+ * - `scenario`: a scenario ID, the file name in `playground/`
+ * - `step`: the step to open at, counting from 1
+ * - `path`: the follow-ups picked at branch points, as in the playground's URL
+ * - `theme`: `light`, `dark` or `auto` (the default, the reader's setting)
+ * - `autoplay`: play on from the starting step
+ * - `height`: the frame's CSS height; 600px by default
+ *
+ * The host page can supply its own scenario instead, in the format of
+ * `playground/*.yaml` as JSON: in a `<script type="application/json">`
+ * inside the element, or set on its `scenarioDocument` property.
+ *
+ * The embed's messages (see `.vitepress/theme/embed-protocol.ts`) are fired
+ * on the element as `wakeiqx-ready`, `wakeiqx-step` and `wakeiqx-error`
+ * events, with the message as `detail`. Served as is from `public/`, so host
+ * pages need no build step.
+ */
+(() => {
+  const TAG = 'wakeiqx-playground'
+  if (customElements.get(TAG)) return
+
+  const ORIGIN = new URL(document.currentScript?.src ?? location.href).origin
+  const HOST_SCENARIO_ID = 'host'
+  const DEFAULT_HEIGHT = '600px'
+
+  class WakeIQXPlayground extends HTMLElement {
+    static observedAttributes = ['scenario', 'step', 'path', 'theme', 'autoplay', 'height']
+
+    #frame = document.createElement('iframe')
+    #document = null
+    #started = false
+    // Whether the framed page can take the host's scenario yet
+    #ready = false
+
+    constructor() {
+      super()
+      const style = document.createElement('style')
+      style.textContent = ':host { display: block } iframe { display: block; width: 100%; border: 0; border-radius: 12px }'
+      this.#frame.title = 'WakeIQX Playground'
+      this.#frame.loading = 'lazy'
+      this.attachShadow({ mode: 'open' }).append(style, this.#frame)
+    }
+
+    /** The host page's scenario, which takes the place of the `scenario` attribute. */
+    get scenarioDocument() {
+      return this.#document
+    }
+
+    set scenarioDocument(scenario) {
+      this.#document = scenario
+      if (this.#started) this.#load()
+    }
+
+    connectedCallback() {
+      window.addEventListener('message', this.#onMessage)
+      // Defined before the page finished parsing, the element has no children yet
+      if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => this.#start(), { once: true })
+      } else {
+        this.#start()
+      }
+    }
+
+    disconnectedCallback() {
+      window.removeEventListener('message', this.#onMessage)
+    }
+
+    attributeChangedCallback() {
+      if (this.#started) this.#load()
+    }
+
+    #start() {
+      if (!this.isConnected) return
+      this.#started = true
+      if (this.#document === null) this.#document = this.#inlineDocument()
+      this.#load()
+    }
+
+    #inlineDocument() {
+      const json = this.querySelector(':scope > script[type="application/json"]')
+      if (!json) return null
+      try {
+        return JSON.parse(json.textContent)
+      } catch (error) {
+        this.#dispatch({ type: 'wakeiqx:error', scenarioId: HOST_SCENARIO_ID, problems: [`The scenario is not valid JSON: ${error.message}`] })
+        return null
+      }
+    }
+
+    #src() {
+      const id = this.#document ? HOST_SCENARIO_ID : this.getAttribute('scenario') ?? ''
+      const params = new URLSearchParams()
+      for (const name of ['step', 'path', 'theme']) {
+        const value = this.getAttribute(name)
+        if (value) params.set(name, value)
+      }
+      if (this.hasAttribute('autoplay')) params.set('autoplay', '')
+      const query = params.toString()
+      return `${ORIGIN}/embed/${encodeURIComponent(id)}${query ? `?${query}` : ''}`
+    }
+
+    #load() {
+      this.#frame.style.height = this.getAttribute('height') || DEFAULT_HEIGHT
+      const src = this.#src()
+      if (this.#frame.src === src) {
+        this.#sendDocument()
+        return
+      }
+      this.#ready = false
+      this.#frame.src = src
+    }
+
+    #sendDocument() {
+      if (!this.#ready || !this.#document) return
+      this.#frame.contentWindow?.postMessage({ type: 'wakeiqx:scenario', scenario: this.#document }, ORIGIN)
+    }
+
+    #dispatch(message) {
+      this.dispatchEvent(new CustomEvent(message.type.replace(':', '-'), { detail: message, bubbles: true, composed: true }))
+    }
+
+    #onMessage = event => {
+      if (event.source !== this.#frame.contentWindow || event.origin !== ORIGIN) return
+      const message = event.data
+      if (typeof message?.type !== 'string' || !message.type.startsWith('wakeiqx:')) return
+      if (message.type === 'wakeiqx:ready') {
+        this.#ready = true
+        this.#sendDocument()
+      }
+      this.#dispatch(message)
+    }
+  }
+
+  customElements.define(TAG, WakeIQXPlayground)
+})()
@@ -0,0 +1,176 @@
+/**
+ * Docs Worker: the static site, plus a sandboxed WakeIQX MCP server.
+ *
+ * Anything that is not a built asset reaches this Worker. Under `/sandbox`
+ * it serves the eight WakeIQX tools over both MCP transports:
+ *
+ * - Streamable HTTP at `/sandbox/mcp`: POST JSON-RPC messages, with the
+ *   `Mcp-Session-Id` header from the `initialize` response; DELETE ends
+ *   the session.
+ * - HTTP+SSE at `/sandbox/sse`: the event stream announces a
+ *   `/sandbox/messages?sessionId=…` URL to POST messages to.
+ *
+ * Each session is a `SandboxSession` Durable Object with its own store.
+ *
+ * Under `/embed` it answers for scenario IDs the build has no embed page for.
+ */
+
+import type { EmbedMessage } from '../.vitepress/theme/embed-protocol'
+import { isRequest, jsonRpcError, JSON_RPC_ERRORS, parseMessages, type ParsedMessages } from './mcp-protocol'
+import type { SandboxSession } from './sandbox-session'
+
+export { SandboxSession } from './sandbox-session'
+
+/** Largest request body accepted, in bytes. */
+const MAX_BODY_BYTES = 16 * 1024
+
+const SESSION_HEADER = 'Mcp-Session-Id'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': `Content-Type, Accept, ${SESSION_HEADER}, Mcp-Protocol-Version`,
+  'Access-Control-Expose-Headers': SESSION_HEADER
+}
+
+function json(body: unknown, init: ResponseInit = {}): Response {
+  return Response.json(body, { ...init, headers: { ...CORS_HEADERS, ...init.headers } })
+}
+
+function failure(status: number, message: string, headers: HeadersInit = {}): Response {
+  return json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, message), { status, headers })
+}
+
+function session(env: Env, id: string): DurableObjectStub<SandboxSession> {
+  return env.SANDBOX_SESSIONS.get(env.SANDBOX_SESSIONS.idFromName(id))
+}
+
+/** Start a session, unless this client has opened too many recently. */
+async function openSession(request: Request, env: Env): Promise<string | Response> {
+  const client = request.headers.get('CF-Connecting-IP') ?? 'unknown'
+  const { success } = await env.SESSION_RATE_LIMIT.limit({ key: client })
+  if (!success) return failure(429, 'Too many new sandbox sessions; try again in a minute')
+
+  const id = crypto.randomUUID()
+  await session(env, id).start()
+  return id
+}
+
+async function readMessages(request: Request): Promise<ParsedMessages | Response> {
+  if (Number(request.headers.get('Content-Length') ?? 0) > MAX_BODY_BYTES) {
+    return failure(413, `Request bodies are limited to ${MAX_BODY_BYTES} bytes`)
+  }
+  const body = await request.text()
+  if (new TextEncoder().encode(body).length > MAX_BODY_BYTES) {
+    return failure(413, `Request bodies are limited to ${MAX_BODY_BYTES} bytes`)
+  }
+
+  const parsed = parseMessages(body)
+  return 'messages' in parsed ? parsed : json(parsed, { status: 400 })
+}
+
+async function handleStreamableHttp(request: Request, env: Env): Promise<Response> {
+  if (request.method === 'GET') {
+    // No server-initiated messages, so there is no standalone event stream
+    return new Response(null, { status: 405, headers: { ...CORS_HEADERS, Allow: 'POST, DELETE' } })
+  }
+
+  let sessionId = request.headers.get(SESSION_HEADER)
+
+  if (request.method === 'DELETE') {
+    if (sessionId) await session(env, sessionId).end()
+    return new Response(null, { status: 204, headers: CORS_HEADERS })
+  }
+
+  const parsed = await readMessages(request)
+  if (parsed instanceof Response) return parsed
+  const { messages, batch } = parsed
+
+  if (messages.some(message => message.method === 'initialize')) {
+    if (messages.length > 1) return failure(400, 'initialize must not be part of a batch')
+    const opened = await openSession(request, env)
+    if (opened instanceof Response) return opened
+    sessionId = opened
+  } else if (!sessionId) {
+    return failure(400, `Missing ${SESSION_HEADER} header; send initialize first`)
+  }
+
+  const result = await session(env, sessionId).receive(messages)
+  if ('status' in result) return failure(result.status, result.message)
+
+  const headers = { [SESSION_HEADER]: sessionId }
+  if (!messages.some(isRequest)) return new Response(null, { status: 202, headers: { ...CORS_HEADERS, ...headers } })
+  const body = batch ? `[${result.responses.join(',')}]` : result.responses[0]
+  return new Response(body, { headers: { ...CORS_HEADERS, ...headers, 'Content-Type': 'application/json' } })
+}
+
+async function handleSse(request: Request, env: Env): Promise<Response> {
+  const opened = await openSession(request, env)
+  if (opened instanceof Response) return opened
+
+  const url = new URL(request.url)
+  const endpoint = `/sandbox/messages?sessionId=${opened}`
+  const stream = await session(env, opened).fetch(`${url.origin}/sse?endpoint=${encodeURIComponent(endpoint)}`)
+  return new Response(stream.body, { headers: { ...Object.fromEntries(stream.headers), ...CORS_HEADERS } })
+}
+
+async function handleSseMessage(request: Request, env: Env): Promise<Response> {
+  const sessionId = new URL(request.url).searchParams.get('sessionId')
+  if (!sessionId) return failure(400, 'Missing sessionId')
+
+  const parsed = await readMessages(request)
+  if (parsed instanceof Response) return parsed
+
+  const result = await session(env, sessionId).receive(parsed.messages, true)
+  if ('status' in result) return failure(result.status, result.message)
+  return new Response('Accepted', { status: 202, headers: CORS_HEADERS })
+}
+
+/**
+ * Each built scenario has an embed page among the assets, so any other
+ * `/embed/…` URL is an unknown scenario. A host page can't read the status
+ * of a page it frames, so this one also reports the problem the way an
+ * embed does, in a `wakeiqx:error` message.
+ */
+function embedNotFound(pathname: string): Response {
+  const scenarioId = pathname.slice('/embed/'.length)
+  const message: EmbedMessage = {
+    type: 'wakeiqx:error',
+    scenarioId,
+    problems: [scenarioId ? `There is no playground scenario ${scenarioId}` : 'Missing scenario ID, as in /embed/causal-chain']
+  }
+  // Safe inside <script>: the ID is only ever written out as JSON, with < escaped
+  const data = JSON.stringify(message).replace(/</g, '\\u003c')
+  const html = `<!doctype html>
+<meta charset="utf-8">
+<meta name="robots" content="noindex">
+<title>WakeIQX Playground</title>
+<p id="problem" style="font-family: system-ui, sans-serif; padding: 1.5rem"></p>
+<script>
+  const message = ${data}
+  document.getElementById('problem').textContent = message.problems[0]
+  if (parent !== window) parent.postMessage(message, '*')
+</script>
+`
+  return new Response(html, { status: 404, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+export default {
+  async fetch(request, env): Promise<Response> {
+    const { pathname } = new URL(request.url)
+    if (pathname.startsWith('/embed/')) return embedNotFound(pathname)
+    if (!pathname.startsWith('/sandbox/')) return env.ASSETS.fetch(request)
+    if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: CORS_HEADERS })
+
+    switch (pathname) {
+      case '/sandbox/mcp':
+        return handleStreamableHttp(request, env)
+      case '/sandbox/sse':
+        return request.method === 'GET' ? handleSse(request, env) : failure(405, 'Use GET to open the event stream')
+      case '/sandbox/messages':
+        return request.method === 'POST' ? handleSseMessage(request, env) : failure(405, 'Use POST to send messages')
+      default:
+        return failure(404, 'Unknown sandbox endpoint; use /sandbox/mcp or /sandbox/sse')
+    }
+  }
+} satisfies ExportedHandler<Env>
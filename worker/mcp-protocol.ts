@@ -0,0 +1,151 @@
+/**
+ * MCP JSON-RPC handling for the sandbox endpoint.
+ *
+ * Implements the subset of the protocol a tools-only server needs:
+ * `initialize`, `ping`, `tools/list` and `tools/call`, with the eight
+ * WakeIQX tools served by the playground's `WakeEngine`. Transports and
+ * sessions live in index.ts and sandbox-session.ts.
+ */
+
+import { toolDefinitions, validateToolParams } from '../.vitepress/theme/tool-schemas'
+import type { WakeEngine } from '../.vitepress/theme/wake-engine'
+import type { ToolName, ToolParams } from '../.vitepress/theme/tool-types'
+
+export const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+export const SERVER_INFO = { name: 'wakeiqx-sandbox', version: '1.0.0' }
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602
+} as const
+
+type RequestId = string | number
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0'
+  id?: RequestId
+  method: string
+  params?: Record<string, unknown>
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: RequestId | null; result: unknown }
+  | { jsonrpc: '2.0'; id: RequestId | null; error: { code: number; message: string; data?: unknown } }
+
+export function jsonRpcError(id: RequestId | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined && { data }) } }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Requests carry an `id` and expect a response; notifications do not. */
+export function isRequest(message: JsonRpcRequest): boolean {
+  return typeof message.method === 'string' && message.id !== undefined
+}
+
+export interface ParsedMessages {
+  messages: JsonRpcRequest[]
+  /** Whether the body was an array, so responses go back as one too. */
+  batch: boolean
+}
+
+/**
+ * Parse a POST body into JSON-RPC messages. Returns an error response
+ * instead when the body is not valid JSON-RPC.
+ */
+export function parseMessages(body: string): ParsedMessages | JsonRpcResponse {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return jsonRpcError(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error')
+  }
+
+  const messages = Array.isArray(parsed) ? parsed : [parsed]
+  const valid = messages.length > 0 && messages.every(message =>
+    isRecord(message) &&
+    message.jsonrpc === '2.0' &&
+    // Responses from the client (to requests we never send) are accepted and ignored
+    (typeof message.method === 'string' || 'result' in message || 'error' in message)
+  )
+  if (!valid) return jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request')
+  return { messages: messages as JsonRpcRequest[], batch: Array.isArray(parsed) }
+}
+
+export function initializeResult(params: Record<string, unknown> = {}) {
+  const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : ''
+  return {
+    protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+    capabilities: { tools: {} },
+    serverInfo: SERVER_INFO,
+    instructions: 'A sandboxed WakeIQX server from the documentation site. Each session starts with the playground ' +
+      'contexts in the ai-consulting-platform project and is deleted after 30 minutes without requests.'
+  }
+}
+
+/** Options for a tool call that the session enforces. */
+export interface ToolCallLimits {
+  /** Returns an error message when `save_context` would exceed the store's size. */
+  checkSave(): string | null
+}
+
+function callTool(engine: WakeEngine, id: RequestId, params: Record<string, unknown>, limits: ToolCallLimits): JsonRpcResponse {
+  const tool = toolDefinitions.find(definition => definition.name === params.name)
+  if (!tool) {
+    return jsonRpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${String(params.name)}`)
+  }
+
+  const args = params.arguments ?? {}
+  const problems = validateToolParams(tool.inputSchema, args, 'arguments')
+  if (problems.length) {
+    return jsonRpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, `Invalid arguments for ${tool.name}`, problems)
+  }
+
+  const storeFull = tool.name === 'save_context' ? limits.checkSave() : null
+  if (storeFull) {
+    return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: storeFull }], isError: true } }
+  }
+
+  // Tool failures (e.g. an unknown snapshot ID) are results, not protocol errors
+  try {
+    const result = engine.invoke(tool.name, args as ToolParams<ToolName>)
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        structuredContent: result
+      }
+    }
+  } catch (error) {
+    return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: (error as Error).message }], isError: true } }
+  }
+}
+
+/**
+ * Handle one client message against a session's engine. Returns `null` for
+ * notifications and client responses, which get no reply.
+ */
+export function handleMessage(engine: WakeEngine, message: JsonRpcRequest, limits: ToolCallLimits): JsonRpcResponse | null {
+  if (!isRequest(message)) return null
+  const id = message.id!
+  const params = isRecord(message.params) ? message.params : {}
+
+  switch (message.method) {
+    case 'initialize':
+      return { jsonrpc: '2.0', id, result: initializeResult(params) }
+    case 'ping':
+      return { jsonrpc: '2.0', id, result: {} }
+    case 'tools/list':
+      return { jsonrpc: '2.0', id, result: { tools: toolDefinitions } }
+    case 'tools/call':
+      return callTool(engine, id, params, limits)
+    default:
+      return jsonRpcError(id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${message.method}`)
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * One sandbox MCP session: a Durable Object holding a WakeEngine store.
+ *
+ * Sessions start with the playground contexts, moved forward in time so the
+ * playground's "now" is the moment the session began. The store is saved to
+ * Durable Object storage after every tool call, and an alarm deletes everything
+ * once the session has been idle for `SESSION_IDLE_MS`.
+ */
+
+import { DurableObject } from 'cloudflare:workers'
+import { playgroundContexts, playgroundNow } from '../.vitepress/theme/playground-data'
+import { WakeEngine, type ContextSeed, type IContextSnapshot } from '../.vitepress/theme/wake-engine'
+import { handleMessage, type JsonRpcRequest } from './mcp-protocol'
+
+export const SESSION_IDLE_MS = 30 * 60 * 1000
+/** Contexts a session may hold, seeds included. */
+export const MAX_CONTEXTS = 100
+/** Messages a session may send per minute. */
+export const MAX_MESSAGES_PER_MINUTE = 60
+
+const MINUTE_MS = 60 * 1000
+// Each snapshot has its own storage key, so no one value outgrows the
+// storage's per-value limit as the store fills up
+const SNAPSHOT_KEY_PREFIX = 'snapshot:'
+
+/** Responses to the messages as JSON text, or the HTTP status to refuse them with. */
+export type ReceiveResult =
+  | { responses: string[] }
+  | { status: 404 | 429; message: string }
+
+/** Playground contexts with every date shifted so `playgroundNow` becomes `now`. */
+export function sandboxSeeds(now: Date): ContextSeed[] {
+  const offset = now.getTime() - new Date(playgroundNow).getTime()
+  const shift = (date: string) => new Date(new Date(date).getTime() + offset).toISOString()
+  return playgroundContexts.map(seed => ({
+    ...seed,
+    timestamp: shift(seed.timestamp),
+    lastAccessed: seed.lastAccessed ? shift(seed.lastAccessed) : seed.lastAccessed
+  }))
+}
+
+export class SandboxSession extends DurableObject<Env> {
+  private engine: WakeEngine | null = null
+  private recentMessages: number[] = []
+  private stream: WritableStreamDefaultWriter<Uint8Array> | null = null
+  private readonly encoder = new TextEncoder()
+
+  /** Create the session's store. Called once, by the request that opened it. */
+  async start(): Promise<void> {
+    const now = new Date()
+    this.engine = WakeEngine.fromSeeds(sandboxSeeds(now), now)
+    await this.save()
+    await this.touch()
+  }
+
+  /**
+   * Handle client messages. With `viaStream`, responses are sent as events
+   * on the session's SSE stream (the legacy HTTP+SSE transport) instead of
+   * being returned.
+   */
+  async receive(messages: JsonRpcRequest[], viaStream = false): Promise<ReceiveResult> {
+    const engine = await this.loadEngine()
+    if (!engine) return { status: 404, message: 'Session not found or expired' }
+    if (viaStream && !this.stream) return { status: 404, message: 'No open event stream for this session' }
+
+    const now = Date.now()
+    this.recentMessages = this.recentMessages.filter(time => now - time < MINUTE_MS)
+    if (this.recentMessages.length + messages.length > MAX_MESSAGES_PER_MINUTE) {
+      return { status: 429, message: `Sandbox sessions are limited to ${MAX_MESSAGES_PER_MINUTE} messages per minute` }
+    }
+    this.recentMessages.push(...messages.map(() => now))
+
+    engine.setTime(new Date(now))
+    const limits = {
+      checkSave: () => engine.repository.findAll().length >= MAX_CONTEXTS
+        ? `The sandbox store is full (${MAX_CONTEXTS} contexts). Start a new session to reset it.`
+        : null
+    }
+    const responses = messages
+      .flatMap(message => handleMessage(engine, message, limits) ?? [])
+      .map(response => JSON.stringify(response))
+
+    // Reads record accesses too, so any tool call can change the store
+    if (messages.some(message => message.method === 'tools/call')) await this.save()
+    await this.touch()
+
+    if (viaStream) {
+      for (const response of responses) this.send('message', response)
+      return { responses: [] }
+    }
+    return { responses }
+  }
+
+  /** Open the session's SSE stream and announce where to POST messages. */
+  async fetch(request: Request): Promise<Response> {
+    const endpoint = new URL(request.url).searchParams.get('endpoint') ?? ''
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+    await this.stream?.close().catch(() => {})
+    this.stream = writable.getWriter()
+    this.send('endpoint', endpoint)
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    })
+  }
+
+  /** Delete the session now, as a DELETE request or the idle alarm does. */
+  async end(): Promise<void> {
+    this.engine = null
+    await this.stream?.close().catch(() => {})
+    this.stream = null
+    await this.ctx.storage.deleteAlarm()
+    await this.ctx.storage.deleteAll()
+  }
+
+  async alarm(): Promise<void> {
+    await this.end()
+  }
+
+  // Restored as saved: tiers and scores only change when a request runs, as
+  // on a real server. Sessions always hold their seeds, so an empty store is
+  // one that was never started or has been deleted.
+  private async loadEngine(): Promise<WakeEngine | null> {
+    if (this.engine) return this.engine
+    const stored = await this.ctx.storage.list<IContextSnapshot>({ prefix: SNAPSHOT_KEY_PREFIX })
+    if (!stored.size) return null
+    this.engine = new WakeEngine([...stored.values()], new Date())
+    return this.engine
+  }
+
+  // Storage keeps structured clones, so Date fields survive the round trip.
+  // MAX_CONTEXTS keeps a store within the 128 keys one put may write.
+  private async save(): Promise<void> {
+    const snapshots = this.engine!.repository.findAll()
+    await this.ctx.storage.put(Object.fromEntries(snapshots.map(snapshot => [`${SNAPSHOT_KEY_PREFIX}${snapshot.id}`, snapshot])))
+  }
+
+  private async touch(): Promise<void> {
+    await this.ctx.storage.setAlarm(Date.now() + SESSION_IDLE_MS)
+  }
+
+  // Not awaited: a write only settles once the client reads it
+  private send(event: string, data: string): void {
+    this.stream?.write(this.encoder.encode(`event: ${event}\ndata: ${data}\n\n`)).catch(() => {
+      this.stream = null
+    })
+  }
+}